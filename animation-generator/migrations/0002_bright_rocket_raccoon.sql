@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `last_etag` text;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `last_modified` text;
\ No newline at end of file
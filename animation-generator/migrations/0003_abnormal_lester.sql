@@ -0,0 +1,3 @@
+ALTER TABLE `images` ADD `perceptual_hash` text;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `last_perceptual_hash` text;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `perceptual_hash_threshold` integer;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `webcams` ADD `health_state` text DEFAULT 'healthy';--> statement-breakpoint
+ALTER TABLE `webcams` ADD `unchanged_daylight_minutes` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `unchanged_checked_at` numeric;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `stale_threshold_minutes` integer DEFAULT 60;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `min_mean_luminance` integer;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `placeholder_image_hashes` text;
\ No newline at end of file
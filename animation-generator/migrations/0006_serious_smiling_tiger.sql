@@ -0,0 +1,3 @@
+ALTER TABLE `webcams` ADD `consecutive_failures` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `next_attempt_at` numeric;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `suspend_after_failures` integer DEFAULT 10;
\ No newline at end of file
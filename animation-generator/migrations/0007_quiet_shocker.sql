@@ -0,0 +1,13 @@
+CREATE TABLE `capture_cycles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`started_at` numeric NOT NULL,
+	`minute_slot` integer NOT NULL,
+	`webcams_enabled` integer DEFAULT 0,
+	`webcams_planned` integer DEFAULT 0,
+	`webcams_processed` integer DEFAULT 0,
+	`webcams_failed` integer DEFAULT 0,
+	`webcams_deferred` integer DEFAULT 0,
+	`duration_ms` integer DEFAULT 0
+);
+--> statement-breakpoint
+CREATE INDEX `idx_capture_cycles_started_at` ON `capture_cycles` (`started_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `source_type` text DEFAULT 'direct_url';--> statement-breakpoint
+ALTER TABLE `webcams` ADD `source_config` text;
\ No newline at end of file
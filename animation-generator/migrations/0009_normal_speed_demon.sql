@@ -0,0 +1,4 @@
+ALTER TABLE `images` ADD `source_time_stamp` integer;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `source_timezone` text;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `source_time_window_minutes` integer DEFAULT 30;--> statement-breakpoint
+UPDATE `images` SET `source_time_stamp` = `time_stamp` WHERE `source_time_stamp` IS NULL;
\ No newline at end of file
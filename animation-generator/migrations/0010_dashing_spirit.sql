@@ -0,0 +1 @@
+ALTER TABLE `images` ADD `thumbnail_object_name` text;
\ No newline at end of file
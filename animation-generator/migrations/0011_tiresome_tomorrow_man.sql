@@ -0,0 +1 @@
+ALTER TABLE `webcams` ADD `image_preset` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `webcam_upload_tokens` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`webcam_id` integer NOT NULL,
+	`token_hash` text NOT NULL,
+	`label` text,
+	`created_at` numeric DEFAULT (CURRENT_TIMESTAMP),
+	`last_used_at` numeric,
+	`revoked_at` numeric,
+	FOREIGN KEY (`webcam_id`) REFERENCES `webcams`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_webcam_upload_tokens_hash` ON `webcam_upload_tokens` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `idx_webcam_upload_tokens_webcam` ON `webcam_upload_tokens` (`webcam_id`);
\ No newline at end of file
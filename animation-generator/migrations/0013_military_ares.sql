@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `fetch_timeout_ms` integer;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `max_image_bytes` integer;
\ No newline at end of file
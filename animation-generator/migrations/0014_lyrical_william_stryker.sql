@@ -0,0 +1 @@
+ALTER TABLE `webcams` ADD `request_profile` text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `capture_hosts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`host` text NOT NULL,
+	`max_concurrency` integer,
+	`min_spacing_ms` integer,
+	`next_allowed_at` numeric,
+	`updated_at` numeric DEFAULT (CURRENT_TIMESTAMP)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_capture_hosts_host` ON `capture_hosts` (`host`);
\ No newline at end of file
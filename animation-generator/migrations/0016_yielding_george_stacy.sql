@@ -0,0 +1,15 @@
+CREATE TABLE `webcam_source_diagnostics` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`webcam_id` integer NOT NULL,
+	`date` numeric NOT NULL,
+	`source_url` text NOT NULL,
+	`attempts` integer DEFAULT 0,
+	`successes` integer DEFAULT 0,
+	`last_error` text,
+	`last_updated` numeric DEFAULT (CURRENT_TIMESTAMP),
+	FOREIGN KEY (`webcam_id`) REFERENCES `webcams`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_webcam_source_diagnostics_date` ON `webcam_source_diagnostics` (`webcam_id`,`date`);--> statement-breakpoint
+ALTER TABLE `webcam_activity_log` ADD `source_url` text;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `fallback_urls` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `webcams` ADD `capture_cadence` text;
\ No newline at end of file
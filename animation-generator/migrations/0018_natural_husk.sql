@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `twilight_type` text;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `light_window_sun_elevation` real;
\ No newline at end of file
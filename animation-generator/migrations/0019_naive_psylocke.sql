@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `elevation_meters` real;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `horizon_profile` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `gif_creation_queue` ADD `solar_fallback` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `webcams` ADD `heading_degrees` real;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `horizontal_fov_degrees` real;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `animation_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`enabled` integer DEFAULT true,
+	`window_start` text NOT NULL,
+	`window_end` text NOT NULL,
+	`repeat_hourly` integer DEFAULT false,
+	`frame_count` integer NOT NULL,
+	`fps` integer DEFAULT 15,
+	`min_frames` integer NOT NULL,
+	`webcam_ids` text,
+	`require_sun_in_frame` text,
+	`include_on_polar_days` integer DEFAULT false,
+	`created_at` numeric DEFAULT (CURRENT_TIMESTAMP),
+	`updated_at` numeric DEFAULT (CURRENT_TIMESTAMP)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_animation_profiles_name` ON `animation_profiles` (`name`);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('hourly', '{"event":"light_start"}', '{"event":"light_end"}', true, 80, 15, 5, NULL, false);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('sunrise', '{"event":"light_start"}', '{"event":"sunrise_end"}', false, 160, 15, 3, 'morning', false);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('sunset', '{"event":"sunset_start"}', '{"event":"light_end"}', false, 160, 15, 3, 'evening', false);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('full_day', '{"event":"light_start"}', '{"event":"light_end"}', false, 200, 15, 10, NULL, true);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('sun_in_frame', '{"event":"sun_in_frame_start"}', '{"event":"sun_in_frame_end"}', false, 160, 15, 3, NULL, false);
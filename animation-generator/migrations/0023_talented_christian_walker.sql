@@ -0,0 +1,3 @@
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('golden_hour_morning', '{"event":"sunrise"}', '{"event":"golden_hour_end"}', false, 160, 15, 3, NULL, false);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('golden_hour_evening', '{"event":"golden_hour_start"}', '{"event":"sunset"}', false, 160, 15, 3, NULL, false);--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days") VALUES ('blue_hour', '{"event":"sunset"}', '{"event":"civil_dusk"}', false, 80, 15, 3, NULL, false);
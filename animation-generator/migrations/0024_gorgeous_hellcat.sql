@@ -0,0 +1,3 @@
+ALTER TABLE `animation_profiles` ADD `require_moonlight` integer DEFAULT false;--> statement-breakpoint
+ALTER TABLE `webcams` ADD `night_mode_min_illumination` real;--> statement-breakpoint
+INSERT INTO `animation_profiles`("name", "window_start", "window_end", "repeat_hourly", "frame_count", "fps", "min_frames", "require_sun_in_frame", "include_on_polar_days", "require_moonlight") VALUES ('moonrise', '{"event":"moonrise"}', '{"event":"moonset"}', false, 160, 15, 3, NULL, true, true);
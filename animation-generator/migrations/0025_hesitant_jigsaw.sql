@@ -0,0 +1 @@
+ALTER TABLE `gif_creation_queue` ADD `fps` integer;
\ No newline at end of file
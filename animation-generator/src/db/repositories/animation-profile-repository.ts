@@ -0,0 +1,42 @@
+import { eq } from 'drizzle-orm';
+import type { Database } from '../connection';
+import { animationProfiles } from '../schema';
+import type { AnimationProfile } from '../schema';
+
+export interface IAnimationProfileRepository {
+  getEnabledAnimationProfiles(): Promise<AnimationProfile[]>;
+  getAnimationProfiles(): Promise<AnimationProfile[]>;
+}
+
+export class AnimationProfileRepository implements IAnimationProfileRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Get the animation profiles the scheduler and finalizer use
+   */
+  async getEnabledAnimationProfiles(): Promise<AnimationProfile[]> {
+    try {
+      return await this.db
+        .select()
+        .from(animationProfiles)
+        .where(eq(animationProfiles.enabled, true));
+    } catch (error) {
+      console.error("Failed to fetch animation profiles:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every animation profile, including disabled ones, for animations queued before their profile was disabled
+   */
+  async getAnimationProfiles(): Promise<AnimationProfile[]> {
+    try {
+      return await this.db
+        .select()
+        .from(animationProfiles);
+    } catch (error) {
+      console.error("Failed to fetch animation profiles:", error);
+      return [];
+    }
+  }
+}
@@ -8,6 +8,9 @@ import { AnimationQueueEntry, AnimationStatus, AnimationType } from '../../types
 
 export interface IAnimationQueueRepository {
 	addAnimationsToQueue(animations: AnimationQueueEntry[]): Promise<boolean>;
+	addAnimationToQueue(animation: AnimationQueueEntry): Promise<GifCreationQueue | null>;
+	getAnimationById(id: number): Promise<GifCreationQueue | null>;
+	getAnimationByReferenceId(referenceId: string): Promise<GifCreationQueue | null>;
 	getPendingAnimations(): Promise<GifCreationQueue[]>;
 	getWaitingAnimations(currentTime: Date): Promise<GifCreationQueue[]>;
 	updateAnimationStatus(
@@ -47,6 +50,56 @@ export class AnimationQueueRepository implements IAnimationQueueRepository {
 		}
 	}
 
+	/**
+	 * Add a single animation to the queue, returning the created row so callers can refer to it by id
+	 */
+	async addAnimationToQueue(animation: AnimationQueueEntry): Promise<GifCreationQueue | null> {
+		try {
+			const result = await this.db.insert(gifCreationQueue).values(this.toInsert(animation)).returning();
+			return result[0] ?? null;
+		} catch (error) {
+			console.error('Failed to add animation to queue:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get an animation by id
+	 */
+	async getAnimationById(id: number): Promise<GifCreationQueue | null> {
+		try {
+			const result = await this.db
+				.select()
+				.from(gifCreationQueue)
+				.where(eq(gifCreationQueue.id, id))
+				.limit(1);
+
+			return result[0] ?? null;
+		} catch (error) {
+			console.error('Failed to fetch animation:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get the latest animation with a reference id, so a repeated request can reuse it rather than queue another render
+	 */
+	async getAnimationByReferenceId(referenceId: string): Promise<GifCreationQueue | null> {
+		try {
+			const result = await this.db
+				.select()
+				.from(gifCreationQueue)
+				.where(eq(gifCreationQueue.referenceId, referenceId))
+				.orderBy(desc(gifCreationQueue.id))
+				.limit(1);
+
+			return result[0] ?? null;
+		} catch (error) {
+			console.error('Failed to fetch animation by reference id:', error);
+			return null;
+		}
+	}
+
 	/**
 	 * Get pending animations ready to be processed
 	 */
@@ -302,7 +355,9 @@ export class AnimationQueueRepository implements IAnimationQueueRepository {
 			errorMessage: x.error_message,
 			startTime: x.start_time,
 			endTime: x.end_time,
-			gifStorageKey: x.gif_storage_key
+			gifStorageKey: x.gif_storage_key,
+			solarFallback: x.solar_fallback,
+			fps: x.fps ?? null
 		}
 	}
 }
@@ -0,0 +1,42 @@
+import { sql } from 'drizzle-orm';
+import type { Database } from '../connection';
+import { captureHosts } from '../schema';
+import type { CaptureHost } from '../schema';
+
+export interface ICaptureHostRepository {
+  getCaptureHosts(): Promise<CaptureHost[]>;
+  deferCaptureHost(host: string, nextAllowedAt: string): Promise<void>;
+}
+
+export class CaptureHostRepository implements ICaptureHostRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Get the politeness limits of all configured hosts
+   */
+  async getCaptureHosts(): Promise<CaptureHost[]> {
+    try {
+      return await this.db.select().from(captureHosts);
+    } catch (error) {
+      console.error("Failed to fetch capture hosts:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Push out the next time a host may be fetched, adding the host if it has no row yet
+   */
+  async deferCaptureHost(host: string, nextAllowedAt: string): Promise<void> {
+    try {
+      await this.db
+        .insert(captureHosts)
+        .values({ host, nextAllowedAt })
+        .onConflictDoUpdate({
+          target: captureHosts.host,
+          set: { nextAllowedAt, updatedAt: sql`(CURRENT_TIMESTAMP)` },
+        });
+    } catch (error) {
+      console.error("Failed to defer capture host:", error);
+    }
+  }
+}
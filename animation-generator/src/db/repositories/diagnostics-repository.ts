@@ -1,13 +1,22 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, gte, lte } from 'drizzle-orm';
 import type { Database } from '../connection';
-import { webcamDiagnostics, webcamErrors, webcamActivityLog } from '../schema';
+import { webcamDiagnostics, webcamErrors, webcamActivityLog, captureCycles, webcamSourceDiagnostics } from '../schema';
 import type {
   WebcamDiagnostic,
   WebcamError,
   WebcamActivityLog,
+  CaptureCycle,
 } from '../schema';
 import { ActivityType, ErrorType } from '../../types';
 
+export interface SourceSuccessRate {
+  sourceUrl: string;
+  attempts: number;
+  successes: number;
+  successRate: number;  // 0 - 1
+  lastError: string | null;
+}
+
 export interface IDiagnosticsRepository
 {
 	updateWebcamDiagnostics(
@@ -27,7 +36,8 @@ export interface IDiagnosticsRepository
     imageHash: string | null,
     imageSizeBytes: number,
     r2CallsMade: number,
-    details?: string
+    details?: string,
+    sourceUrl?: string | null
   ): Promise<void>;
 	logWebcamError(
     webcamId: number,
@@ -35,6 +45,10 @@ export interface IDiagnosticsRepository
     errorMessage: string,
     errorDetails?: string
   ): Promise<void>;
+	resolveWebcamErrors(webcamId: number, errorType: ErrorType): Promise<void>;
+	logCaptureCycle(cycle: Omit<CaptureCycle, 'id'>): Promise<void>;
+	recordSourceAttempt(webcamId: number, sourceUrl: string, success: boolean, errorMessage?: string | null): Promise<void>;
+	getSourceSuccessRates(webcamId: number, startDate: string, endDate: string): Promise<SourceSuccessRate[]>;
 }
 
 export class DiagnosticsRepository implements IDiagnosticsRepository {
@@ -158,7 +172,7 @@ export class DiagnosticsRepository implements IDiagnosticsRepository {
   }
 
   /**
-   * Log webcam activity
+   * Log webcam activity, the source url records which of the webcams sources served the image
    */
   async logWebcamActivity(
     webcamId: number,
@@ -166,7 +180,8 @@ export class DiagnosticsRepository implements IDiagnosticsRepository {
     imageHash: string | null,
     imageSizeBytes: number,
     r2CallsMade: number,
-    details?: string
+    details?: string,
+    sourceUrl: string | null = null
   ): Promise<void> {
     try {
       await this.db.insert(webcamActivityLog).values({
@@ -176,6 +191,7 @@ export class DiagnosticsRepository implements IDiagnosticsRepository {
         imageSizeBytes,
         r2CallsMade,
         details,
+        sourceUrl,
       });
     } catch (error) {
       console.error('Failed to log webcam activity:', error);
@@ -203,6 +219,118 @@ export class DiagnosticsRepository implements IDiagnosticsRepository {
     }
   }
 
+  /**
+   * Mark all unresolved errors of a type as resolved for a webcam
+   */
+  async resolveWebcamErrors(webcamId: number, errorType: ErrorType): Promise<void> {
+    try {
+      await this.db
+        .update(webcamErrors)
+        .set({ resolved: true })
+        .where(
+          and(
+            eq(webcamErrors.webcamId, webcamId),
+            eq(webcamErrors.errorType, errorType),
+            eq(webcamErrors.resolved, false)
+          )
+        );
+    } catch (error) {
+      console.error('Failed to resolve webcam errors:', error);
+    }
+  }
+
+  /**
+   * Log the timing and counts of a capture cycle
+   */
+  async logCaptureCycle(cycle: Omit<CaptureCycle, 'id'>): Promise<void> {
+    try {
+      await this.db.insert(captureCycles).values(cycle);
+    } catch (error) {
+      console.error('Failed to log capture cycle:', error);
+    }
+  }
+
+  /**
+   * Count a fetch attempt against one of a webcams source urls
+   */
+  async recordSourceAttempt(webcamId: number, sourceUrl: string, success: boolean, errorMessage: string | null = null): Promise<void> {
+    try {
+      const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+
+      const existingRecord = await this.db
+        .select()
+        .from(webcamSourceDiagnostics)
+        .where(
+          and(
+            eq(webcamSourceDiagnostics.webcamId, webcamId),
+            eq(webcamSourceDiagnostics.date, today),
+            eq(webcamSourceDiagnostics.sourceUrl, sourceUrl)
+          )
+        )
+        .limit(1);
+
+      if (existingRecord.length > 0) {
+        const current = existingRecord[0];
+        await this.db
+          .update(webcamSourceDiagnostics)
+          .set({
+            attempts: (current.attempts || 0) + 1,
+            successes: (current.successes || 0) + (success ? 1 : 0),
+            lastError: success ? current.lastError : errorMessage,
+            lastUpdated: new Date().toISOString(),
+          })
+          .where(eq(webcamSourceDiagnostics.id, current.id));
+      } else {
+        await this.db.insert(webcamSourceDiagnostics).values({
+          webcamId,
+          date: today,
+          sourceUrl,
+          attempts: 1,
+          successes: success ? 1 : 0,
+          lastError: success ? null : errorMessage,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to record source attempt:', error);
+    }
+  }
+
+  /**
+   * Get the success rate of each of a webcams source urls over a date range (YYYY-MM-DD)
+   */
+  async getSourceSuccessRates(webcamId: number, startDate: string, endDate: string): Promise<SourceSuccessRate[]> {
+    try {
+      const records = await this.db
+        .select()
+        .from(webcamSourceDiagnostics)
+        .where(
+          and(
+            eq(webcamSourceDiagnostics.webcamId, webcamId),
+            gte(webcamSourceDiagnostics.date, startDate),
+            lte(webcamSourceDiagnostics.date, endDate)
+          )
+        )
+        .orderBy(webcamSourceDiagnostics.date);
+
+      const rates = new Map<string, SourceSuccessRate>();
+      for (const record of records) {
+        const rate = rates.get(record.sourceUrl) ?? { sourceUrl: record.sourceUrl, attempts: 0, successes: 0, successRate: 0, lastError: null };
+        rate.attempts += record.attempts || 0;
+        rate.successes += record.successes || 0;
+        rate.lastError = record.lastError ?? rate.lastError;
+        rates.set(record.sourceUrl, rate);
+      }
+
+      return Array.from(rates.values()).map(rate => ({
+        ...rate,
+        successRate: rate.attempts > 0 ? rate.successes / rate.attempts : 0,
+      }));
+    } catch (error) {
+      console.error('Failed to get source success rates:', error);
+      return [];
+    }
+  }
+
   /**
    * Get recent activity for a webcam
    */
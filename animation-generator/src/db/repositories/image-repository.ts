@@ -1,10 +1,10 @@
-import { eq, and, gte, lte, asc, or } from 'drizzle-orm';
+import { eq, and, gte, lte, asc, desc, or } from 'drizzle-orm';
 import type { Database } from '../connection';
 import { images, webcams } from '../schema';
 import type { Image, WebcamDto } from '../schema';
 
 export interface IImageRepository {
-  addImageToDatabase(webcamId: number, timestamp: number, objectName: string): Promise<boolean>;
+  addImageToDatabase(webcamId: number, timestamp: number, objectName: string, perceptualHash?: string | null, sourceTimestamp?: number | null, thumbnailObjectName?: string | null): Promise<boolean>;
   getAllImagesForTimeRangeWoRetentionPolicy(startTime: number, endTime: number): Promise<Image[]>;
 	getImagesForTimeRange(webcam: WebcamDto, startTime: number, endTime: number): Promise<Image[]>;
   getImageById(imageId: number): Promise<Image | null>;
@@ -23,13 +23,25 @@ export class ImageRepository implements IImageRepository {
 
   /**
    * Add image to database
+   * The timestamp is when the worker fetched the image and the source timestamp is when the camera took it,
+   * images without a source timestamp use the fetch time
    */
-  async addImageToDatabase(webcamId: number, timestamp: number, objectName: string): Promise<boolean> {
+  async addImageToDatabase(
+    webcamId: number,
+    timestamp: number,
+    objectName: string,
+    perceptualHash: string | null = null,
+    sourceTimestamp: number | null = null,
+    thumbnailObjectName: string | null = null
+  ): Promise<boolean> {
     try {
       await this.db.insert(images).values({
         webcamId,
         timeStamp: timestamp,
+        sourceTimeStamp: sourceTimestamp ?? timestamp,
         objectName,
+        thumbnailObjectName,
+        perceptualHash,
       });
 
       return true;
@@ -40,7 +52,7 @@ export class ImageRepository implements IImageRepository {
   }
 
   /**
-   * Get images for a specific time range from the database
+   * Get images taken by the camera in a specific time range from the database
    */
   async getImagesForTimeRange(
     webcam: WebcamDto,
@@ -58,11 +70,11 @@ export class ImageRepository implements IImageRepository {
         .where(
           and(
             eq(images.webcamId, webcam.id),
-            gte(images.timeStamp, startTimeSeconds),
-            lte(images.timeStamp, endTimeSeconds)
+            gte(images.sourceTimeStamp, startTimeSeconds),
+            lte(images.sourceTimeStamp, endTimeSeconds)
           )
         )
-        .orderBy(asc(images.timeStamp));
+        .orderBy(asc(images.sourceTimeStamp));
 
       return result;
     } catch (error) {
@@ -102,7 +114,7 @@ export class ImageRepository implements IImageRepository {
         .select()
         .from(images)
         .where(eq(images.webcamId, webcamId))
-        .orderBy(asc(images.timeStamp))
+        .orderBy(asc(images.sourceTimeStamp))
         .limit(limit)
         .offset(offset);
 
@@ -122,7 +134,7 @@ export class ImageRepository implements IImageRepository {
         .select()
         .from(images)
         .where(eq(images.webcamId, webcamId))
-        .orderBy(asc(images.timeStamp))
+        .orderBy(desc(images.sourceTimeStamp))
         .limit(1);
 
       return result[0] || null;
@@ -143,7 +155,7 @@ export class ImageRepository implements IImageRepository {
 
       const result = await this.db
         .delete(images)
-        .where(lte(images.timeStamp, cutoffTimestamp));
+        .where(lte(images.sourceTimeStamp, cutoffTimestamp));
 
       console.log(`Deleted old images older than ${daysOld} days`);
       return 0; // D1 doesn't return affected rows count reliably
@@ -183,8 +195,8 @@ export class ImageRepository implements IImageRepository {
       const endTimestamp = Math.floor(endDate.getTime() / 1000);
 
       const whereConditions = [
-        gte(images.timeStamp, startTimestamp),
-        lte(images.timeStamp, endTimestamp)
+        gte(images.sourceTimeStamp, startTimestamp),
+        lte(images.sourceTimeStamp, endTimestamp)
       ];
 
       if (webcamId) {
@@ -195,7 +207,7 @@ export class ImageRepository implements IImageRepository {
         .select()
         .from(images)
         .where(and(...whereConditions))
-        .orderBy(asc(images.timeStamp));
+        .orderBy(asc(images.sourceTimeStamp));
 
       return result;
     } catch (error) {
@@ -258,8 +270,8 @@ export class ImageRepository implements IImageRepository {
 				.from(images)
 				.where(and(
             or(eq(images.retentionPolicy, null), eq(images.retentionPolicy, [])),
-            gte(images.timeStamp, startTime),
-            lte(images.timeStamp, endTime)
+            gte(images.sourceTimeStamp, startTime),
+            lte(images.sourceTimeStamp, endTime)
           ));
 
       return result;
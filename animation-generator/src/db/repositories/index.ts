@@ -1,7 +1,10 @@
 import { createDatabase, Database } from '../connection';
+import { AnimationProfileRepository, IAnimationProfileRepository } from './animation-profile-repository';
 import { AnimationQueueRepository, IAnimationQueueRepository } from './animation-queue-repository';
+import { CaptureHostRepository, ICaptureHostRepository } from './capture-host-repository';
 import { DiagnosticsRepository, IDiagnosticsRepository } from './diagnostics-repository';
 import { IImageRepository, ImageRepository } from './image-repository';
+import { IUploadTokenRepository, UploadTokenRepository } from './upload-token-repository';
 import { IWebcamRepository, WebcamRepository } from './webcam-repository';
 
 // Repository exports for easy importing
@@ -9,6 +12,9 @@ export { WebcamRepository } from './webcam-repository';
 export { AnimationQueueRepository } from './animation-queue-repository';
 export { ImageRepository } from './image-repository';
 export { DiagnosticsRepository } from './diagnostics-repository';
+export { UploadTokenRepository } from './upload-token-repository';
+export { CaptureHostRepository } from './capture-host-repository';
+export { AnimationProfileRepository } from './animation-profile-repository';
 
 
 export interface IRepository
@@ -16,7 +22,10 @@ export interface IRepository
 	webcams: IWebcamRepository,
 	diagnostics: IDiagnosticsRepository,
 	animationQueue: IAnimationQueueRepository,
-	imageRepository: IImageRepository
+	imageRepository: IImageRepository,
+	uploadTokens: IUploadTokenRepository,
+	captureHosts: ICaptureHostRepository,
+	animationProfiles: IAnimationProfileRepository
 }
 
 export function RepositoryFactory(env: Env): IRepository {
@@ -25,6 +34,9 @@ export function RepositoryFactory(env: Env): IRepository {
 		animationQueue: new AnimationQueueRepository(database),
 		diagnostics: new DiagnosticsRepository(database),
 		imageRepository: new ImageRepository(database),
-		webcams: new WebcamRepository(database)
+		webcams: new WebcamRepository(database),
+		uploadTokens: new UploadTokenRepository(database),
+		captureHosts: new CaptureHostRepository(database),
+		animationProfiles: new AnimationProfileRepository(database)
 	};
 }
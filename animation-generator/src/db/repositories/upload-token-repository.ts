@@ -0,0 +1,111 @@
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import type { Database } from '../connection';
+import { webcamUploadTokens } from '../schema';
+import type { WebcamUploadToken } from '../schema';
+
+export interface IUploadTokenRepository {
+  createUploadToken(webcamId: number, tokenHash: string, label?: string | null): Promise<WebcamUploadToken>;
+  getActiveUploadToken(webcamId: number, tokenHash: string): Promise<WebcamUploadToken | null>;
+  getUploadTokensForWebcam(webcamId: number): Promise<WebcamUploadToken[]>;
+  markUploadTokenUsed(tokenId: number): Promise<void>;
+  revokeUploadToken(webcamId: number, tokenId: number): Promise<boolean>;
+}
+
+export class UploadTokenRepository implements IUploadTokenRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Store the hash of a newly issued upload token
+   */
+  async createUploadToken(webcamId: number, tokenHash: string, label: string | null = null): Promise<WebcamUploadToken> {
+    try {
+      const result = await this.db
+        .insert(webcamUploadTokens)
+        .values({ webcamId, tokenHash, label })
+        .returning();
+
+      return result[0];
+    } catch (error) {
+      console.error("Failed to create upload token:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the unrevoked upload token of a webcam with the given hash
+   */
+  async getActiveUploadToken(webcamId: number, tokenHash: string): Promise<WebcamUploadToken | null> {
+    try {
+      const result = await this.db
+        .select()
+        .from(webcamUploadTokens)
+        .where(
+          and(
+            eq(webcamUploadTokens.webcamId, webcamId),
+            eq(webcamUploadTokens.tokenHash, tokenHash),
+            isNull(webcamUploadTokens.revokedAt)
+          )
+        )
+        .limit(1);
+
+      return result[0] || null;
+    } catch (error) {
+      console.error("Failed to fetch upload token:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all upload tokens issued for a webcam, newest first
+   */
+  async getUploadTokensForWebcam(webcamId: number): Promise<WebcamUploadToken[]> {
+    try {
+      return await this.db
+        .select()
+        .from(webcamUploadTokens)
+        .where(eq(webcamUploadTokens.webcamId, webcamId))
+        .orderBy(desc(webcamUploadTokens.id));
+    } catch (error) {
+      console.error("Failed to fetch upload tokens:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Record when an upload token was last used
+   */
+  async markUploadTokenUsed(tokenId: number): Promise<void> {
+    try {
+      await this.db
+        .update(webcamUploadTokens)
+        .set({ lastUsedAt: new Date().toISOString() })
+        .where(eq(webcamUploadTokens.id, tokenId));
+    } catch (error) {
+      console.error("Failed to update upload token:", error);
+    }
+  }
+
+  /**
+   * Revoke an upload token, returns false if the webcam has no unrevoked token with the id
+   */
+  async revokeUploadToken(webcamId: number, tokenId: number): Promise<boolean> {
+    try {
+      const result = await this.db
+        .update(webcamUploadTokens)
+        .set({ revokedAt: new Date().toISOString() })
+        .where(
+          and(
+            eq(webcamUploadTokens.id, tokenId),
+            eq(webcamUploadTokens.webcamId, webcamId),
+            isNull(webcamUploadTokens.revokedAt)
+          )
+        )
+        .returning();
+
+      return result.length > 0;
+    } catch (error) {
+      console.error("Failed to revoke upload token:", error);
+      return false;
+    }
+  }
+}
@@ -2,12 +2,14 @@ import { eq } from 'drizzle-orm';
 import type { Database } from '../connection';
 import { webcams } from '../schema';
 import type { WebcamDto } from '../schema';
+import type { CacheValidators } from '../../logic/webcam';
 
 export interface IWebcamRepository {
 	getEnabledWebcams(): Promise<WebcamDto[]>;
 	getWebcamById(webcamId: number): Promise<WebcamDto | null>;
 	getWebcamTimezone(webcamId: number): Promise<string | null>;
-	updateWebcamStatus(webcamId: number, imageHash: string): Promise<void>;
+	updateWebcamStatus(webcamId: number, imageHash: string, perceptualHash?: string | null): Promise<void>;
+	updateWebcamCacheValidators(webcamId: number, validators: CacheValidators): Promise<void>;
 	createWebcam(webcam: WebcamDto): Promise<WebcamDto>;
 	deleteWebcam(webcamId: number): Promise<boolean>;
 	updateWebcam(webcamId: number, updates: Partial<WebcamDto>): Promise<WebcamDto | null>;
@@ -73,16 +75,21 @@ export class WebcamRepository implements IWebcamRepository {
   }
 
   /**
-   * Update webcam status with new image hash and last active timestamp
+   * Update webcam status with new image hashes and last active timestamp
+   * A new image also resets the unchanged feed tracking and marks the webcam healthy
    */
-  async updateWebcamStatus(webcamId: number, imageHash: string): Promise<void> {
+  async updateWebcamStatus(webcamId: number, imageHash: string, perceptualHash: string | null = null): Promise<void> {
     try {
       const now = new Date().toISOString();
       await this.db
         .update(webcams)
         .set({
           lastImageHash: imageHash,
+          lastPerceptualHash: perceptualHash,
           lastActiveAt: now,
+          healthState: 'healthy',
+          unchangedDaylightMinutes: 0,
+          unchangedCheckedAt: now,
           updatedAt: now,
         })
         .where(eq(webcams.id, webcamId));
@@ -92,6 +99,24 @@ export class WebcamRepository implements IWebcamRepository {
     }
   }
 
+  /**
+   * Update the ETag / Last-Modified validators used for conditional requests
+   */
+  async updateWebcamCacheValidators(webcamId: number, validators: CacheValidators): Promise<void> {
+    try {
+      await this.db
+        .update(webcams)
+        .set({
+          lastEtag: validators.etag,
+          lastModified: validators.lastModified,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(webcams.id, webcamId));
+    } catch (error) {
+      console.error("Failed to update webcam cache validators:", error);
+    }
+  }
+
   /**
    * Create a new webcam
    */
@@ -1,17 +1,47 @@
-import { sqliteTable, AnySQLiteColumn, index, integer, text, numeric, foreignKey, blob } from "drizzle-orm/sqlite-core"
+import { sqliteTable, AnySQLiteColumn, index, uniqueIndex, integer, real, text, numeric, foreignKey, blob } from "drizzle-orm/sqlite-core"
   import { sql } from "drizzle-orm"
-import { AnimationType } from "@/types";
+import { AnimationType, AnimationWindowBoundary, CaptureCadenceProfile, HorizonPoint, ImagePreset, SolarFallback, SunInFrameRequirement, TwilightType, WebcamHealthState, WebcamRequestProfile, WebcamSourceConfig, WebcamSourceType } from "@/types";
 
 export const webcams = sqliteTable("webcams", {
 	id: integer().primaryKey({ autoIncrement: true }),
 	name: text().notNull(),
 	url: text().notNull(),
+	sourceType: text("source_type").$type<WebcamSourceType>().default("direct_url"),
+	sourceConfig: text("source_config", { mode: 'json' }).$type<WebcamSourceConfig | null>(),
+	requestProfile: text("request_profile", { mode: 'json' }).$type<WebcamRequestProfile | null>(),
+	fallbackUrls: text("fallback_urls", { mode: 'json' }).$type<string[] | null>(),
 	enabled: integer({ mode: 'boolean'}).default(true),
 	intervalMinutes: integer("interval_minutes").default(1),
+	captureCadence: text("capture_cadence", { mode: 'json' }).$type<CaptureCadenceProfile | null>(),
 	location: text(),
 	nationalPark: text("national_park"),
 	timezone: text().default("America/Denver"),
+	twilightType: text("twilight_type").$type<TwilightType>(),
+	lightWindowSunElevation: real("light_window_sun_elevation"),
+	elevationMeters: real("elevation_meters"),
+	horizonProfile: text("horizon_profile", { mode: 'json' }).$type<HorizonPoint[] | null>(),
+	headingDegrees: real("heading_degrees"),
+	horizontalFovDegrees: real("horizontal_fov_degrees"),
+	nightModeMinIllumination: real("night_mode_min_illumination"),
 	lastImageHash: text("last_image_hash"),
+	lastEtag: text("last_etag"),
+	lastModified: text("last_modified"),
+	lastPerceptualHash: text("last_perceptual_hash"),
+	perceptualHashThreshold: integer("perceptual_hash_threshold"),
+	healthState: text("health_state").$type<WebcamHealthState>().default("healthy"),
+	unchangedDaylightMinutes: integer("unchanged_daylight_minutes").default(0),
+	unchangedCheckedAt: numeric("unchanged_checked_at"),
+	staleThresholdMinutes: integer("stale_threshold_minutes").default(60),
+	minMeanLuminance: integer("min_mean_luminance"),
+	placeholderImageHashes: text("placeholder_image_hashes", { mode: 'json' }).$type<string[] | null>(),
+	consecutiveFailures: integer("consecutive_failures").default(0),
+	nextAttemptAt: numeric("next_attempt_at"),
+	suspendAfterFailures: integer("suspend_after_failures").default(10),
+	sourceTimezone: text("source_timezone"),
+	sourceTimeWindowMinutes: integer("source_time_window_minutes").default(30),
+	imagePreset: text("image_preset", { mode: 'json' }).$type<ImagePreset | null>(),
+	fetchTimeoutMs: integer("fetch_timeout_ms"),
+	maxImageBytes: integer("max_image_bytes"),
 	lastActiveAt: numeric("last_active_at"),
 	createdAt: numeric("created_at").default(sql`(CURRENT_TIMESTAMP)`),
 	updatedAt: numeric("updated_at").default(sql`(CURRENT_TIMESTAMP)`),
@@ -64,12 +94,28 @@ export const webcamActivityLog = sqliteTable("webcam_activity_log", {
 	imageSizeBytes: integer("image_size_bytes"),
 	r2CallsMade: integer("r2_calls_made").default(0),
 	details: text(),
+	sourceUrl: text("source_url"),
 	timestamp: numeric().default(sql`(CURRENT_TIMESTAMP)`),
 },
 (table) => [
 	index("idx_webcam_activity_webcam_timestamp").on(table.webcamId, table.timestamp),
 ]);
 
+// Daily fetch attempts and successes for each of a webcams source urls
+export const webcamSourceDiagnostics = sqliteTable("webcam_source_diagnostics", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	webcamId: integer("webcam_id").notNull().references(() => webcams.id),
+	date: numeric().notNull(),
+	sourceUrl: text("source_url").notNull(),
+	attempts: integer().default(0),
+	successes: integer().default(0),
+	lastError: text("last_error"),
+	lastUpdated: numeric("last_updated").default(sql`(CURRENT_TIMESTAMP)`),
+},
+(table) => [
+	index("idx_webcam_source_diagnostics_date").on(table.webcamId, table.date),
+]);
+
 export const gifCreationQueue = sqliteTable("gif_creation_queue", {
 	id: integer().primaryKey({ autoIncrement: true }),
 	webcamId: integer("webcam_id").notNull().references(() => webcams.id),
@@ -85,6 +131,8 @@ export const gifCreationQueue = sqliteTable("gif_creation_queue", {
 	endTime: integer("end_time").default(0),
 	gifStorageKey: text("gif_storage_key"),
 	dateKey: text("date_key"),
+	solarFallback: text("solar_fallback").$type<SolarFallback>(),
+	fps: integer(),
 },
 (table) => [
 	index("idx_gif_queue_status_date").on(table.status, table.dateKey),
@@ -95,15 +143,83 @@ export const gifCreationQueue = sqliteTable("gif_creation_queue", {
 	index("idx_gif_queue_status_time").on(table.status, table.scheduledTime),
 ]);
 
+// Describes a kind of animation, the scheduler creates an animation for each enabled profile, webcam and day
+// and the finalizer selects its frames using the profile
+export const animationProfiles = sqliteTable("animation_profiles", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	name: text().notNull(),
+	enabled: integer({ mode: 'boolean'}).default(true),
+	windowStart: text("window_start", { mode: 'json' }).$type<AnimationWindowBoundary>().notNull(),
+	windowEnd: text("window_end", { mode: 'json' }).$type<AnimationWindowBoundary>().notNull(),
+	repeatHourly: integer("repeat_hourly", { mode: 'boolean'}).default(false),
+	frameCount: integer("frame_count").notNull(),
+	fps: integer().default(15),
+	minFrames: integer("min_frames").notNull(),
+	webcamIds: text("webcam_ids", { mode: 'json' }).$type<number[] | null>(),
+	requireSunInFrame: text("require_sun_in_frame").$type<SunInFrameRequirement>(),
+	includeOnPolarDays: integer("include_on_polar_days", { mode: 'boolean'}).default(false),
+	requireMoonlight: integer("require_moonlight", { mode: 'boolean'}).default(false),
+	createdAt: numeric("created_at").default(sql`(CURRENT_TIMESTAMP)`),
+	updatedAt: numeric("updated_at").default(sql`(CURRENT_TIMESTAMP)`),
+},
+(table) => [
+	uniqueIndex("idx_animation_profiles_name").on(table.name),
+]);
+
 export const images = sqliteTable("images", {
 	id: integer().primaryKey({ autoIncrement: true }),
 	webcamId: integer("webcam_id").notNull().references(() => webcams.id),
 	timeStamp: integer("time_stamp").notNull(),
+	sourceTimeStamp: integer("source_time_stamp"),
 	objectName: text("object_name").notNull(),
+	thumbnailObjectName: text("thumbnail_object_name"),
+	perceptualHash: text("perceptual_hash"),
 	retentionPolicy: text('retention_policy', { mode: 'json'}).$type<string[] | null>(),
 	retentionPolicySettings: text('retention_policy_settings', { mode: 'json' })
 });
 
+export const captureCycles = sqliteTable("capture_cycles", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	startedAt: numeric("started_at").notNull(),
+	minuteSlot: integer("minute_slot").notNull(),
+	webcamsEnabled: integer("webcams_enabled").default(0),
+	webcamsPlanned: integer("webcams_planned").default(0),
+	webcamsProcessed: integer("webcams_processed").default(0),
+	webcamsFailed: integer("webcams_failed").default(0),
+	webcamsDeferred: integer("webcams_deferred").default(0),
+	durationMs: integer("duration_ms").default(0),
+},
+(table) => [
+	index("idx_capture_cycles_started_at").on(table.startedAt),
+]);
+
+// Politeness limits for an origin host shared by several webcams, hosts without a row use the defaults
+export const captureHosts = sqliteTable("capture_hosts", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	host: text().notNull(),
+	maxConcurrency: integer("max_concurrency"),
+	minSpacingMs: integer("min_spacing_ms"),
+	nextAllowedAt: numeric("next_allowed_at"),
+	updatedAt: numeric("updated_at").default(sql`(CURRENT_TIMESTAMP)`),
+},
+(table) => [
+	uniqueIndex("idx_capture_hosts_host").on(table.host),
+]);
+
+export const webcamUploadTokens = sqliteTable("webcam_upload_tokens", {
+	id: integer().primaryKey({ autoIncrement: true }),
+	webcamId: integer("webcam_id").notNull().references(() => webcams.id),
+	tokenHash: text("token_hash").notNull(),
+	label: text(),
+	createdAt: numeric("created_at").default(sql`(CURRENT_TIMESTAMP)`),
+	lastUsedAt: numeric("last_used_at"),
+	revokedAt: numeric("revoked_at"),
+},
+(table) => [
+	index("idx_webcam_upload_tokens_hash").on(table.tokenHash),
+	index("idx_webcam_upload_tokens_webcam").on(table.webcamId),
+]);
+
 export const d1Migrations = sqliteTable("d1_migrations", {
 	id: integer().primaryKey({ autoIncrement: true }),
 	name: text(),
@@ -116,3 +232,8 @@ export type WebcamActivityLog = typeof webcamActivityLog.$inferSelect;
 export type WebcamError = typeof webcamErrors.$inferSelect;
 export type WebcamDiagnostic = typeof webcamDiagnostics.$inferSelect;
 export type GifCreationQueue = typeof gifCreationQueue.$inferSelect;
+export type CaptureCycle = typeof captureCycles.$inferSelect;
+export type WebcamUploadToken = typeof webcamUploadTokens.$inferSelect;
+export type CaptureHost = typeof captureHosts.$inferSelect;
+export type WebcamSourceDiagnostic = typeof webcamSourceDiagnostics.$inferSelect;
+export type AnimationProfile = typeof animationProfiles.$inferSelect;
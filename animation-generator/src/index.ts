@@ -1,10 +1,21 @@
-import { calculateWebcamSolarTimes, parseLatLon } from './logic/solar-calculations';
+import { calculateWebcamSolarTimes, getWebcamLightWindow, getWebcamObserver, parseLatLon } from './logic/solar-calculations';
 
 import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
 import { RepositoryFactory } from '@/db/repositories/index';
-import { cleanupOldAnimations, createTodaysAnimations, prepareAnimationsForPendingQueue, processAllWebcams } from './tasks';
-import { AnimationQueueEntry } from './types';
+import { cleanupOldAnimations, createOnDemandAnimation, createSeasonalAnimation, createTodaysAnimations, ingestUploadedImage, prepareAnimationsForPendingQueue, processAllWebcams } from './tasks';
+import { AnimationQueueEntry, ImagePreset } from './types';
 import { applyRetentionPolicies } from './tasks/applyRetentionPolicies';
+import { getCapturePlannerOptions } from './logic/capture-planner';
+import { getThumbnailOptions } from './logic/thumbnail';
+import { applyImagePreset, parseImagePreset } from './logic/image-preset';
+import { decodeJpeg, encodeJpeg } from './logic/image';
+import { ALLOWED_IMAGE_CONTENT_TYPES, readStreamWithLimit, validateImageContent, WebcamFetchError } from './logic/fetch-safeguards';
+import { getRequestSecrets, redactCredentials } from './logic/request-profile';
+import { generateUploadToken, hashUploadToken, MAX_UPLOAD_BYTES, parseBearerToken, parseUploadTimestamp } from './logic/upload-tokens';
+import { DEFAULT_ANIMATION_FPS } from './logic/animation-profiles';
+import { MAX_SEASONAL_DAYS, parseSeasonalAnchor, SEASONAL_ANIMATION_TYPE } from './logic/seasonal-timelapse';
+import { MAX_ON_DEMAND_FPS, MAX_ON_DEMAND_FRAMES, MAX_ON_DEMAND_HOURS, ON_DEMAND_ANIMATION_TYPE } from './logic/animations';
 
 const app = new Hono<{ Bindings: Env }>();
 (app as any).scheduled = (_event: ScheduledEvent, env: Env, ctx: ExecutionContext) => {
@@ -27,7 +38,7 @@ const app = new Hono<{ Bindings: Env }>();
 			}
 
 			// Always (every minute)
-			await processAllWebcams(repo, env.STORAGE_BUCKET);
+			await processAllWebcams(repo, env.STORAGE_BUCKET, getCapturePlannerOptions(env), getThumbnailOptions(env), getRequestSecrets(env));
 			await prepareAnimationsForPendingQueue(repo, now);
 
 			// At the top of every hour (minute 0)
@@ -46,10 +57,22 @@ app.get("gifs/to-create", async (c) => {
 	const repo = RepositoryFactory(c.env);
 	try {
 		const pendingGifs = await repo.animationQueue.getPendingAnimations();
+		const profiles = await repo.animationProfiles.getAnimationProfiles();
+		const fpsByType = new Map(profiles.map(profile => [profile.name, profile.fps]));
+
+		// Include each webcams image preset so the renderer can crop, mask and rotate the frames
+		// The webcams are loaded in one query rather than one per animation
+		const webcams = pendingGifs.length > 0 ? await repo.webcams.getAllWebcams() : [];
+		const imagePresets = new Map<number, ImagePreset | null>(webcams.map(webcam => [webcam.id, webcam.imagePreset ?? null]));
+
 		return c.json({
 			success: true,
 			count: pendingGifs.length,
-			gifs: pendingGifs
+			gifs: pendingGifs.map(gif => ({
+				...gif,
+				imagePreset: imagePresets.get(gif.webcamId) ?? null,
+				fps: gif.fps ?? fpsByType.get(gif.gifType) ?? DEFAULT_ANIMATION_FPS
+			}))
 		});
 	} catch (error) {
 		console.error('Error fetching pending GIFs:', error);
@@ -137,7 +160,7 @@ app.get("webcams/:webcamId/solar-times", async (c) => {
 		}
 
 		// Calculate solar times
-		const solarTimes = calculateWebcamSolarTimes(webcam.latLon, targetDate.getTime());
+		const solarTimes = calculateWebcamSolarTimes(webcam.latLon, targetDate.getTime(), getWebcamLightWindow(webcam), getWebcamObserver(webcam));
 		if (!solarTimes) {
 			return c.json({
 				success: false,
@@ -184,13 +207,23 @@ app.get("webcams/:webcamId/solar-times", async (c) => {
 				sunset: formatUtcTime(solarTimes.sunset),
 				first_light: formatUtcTime(solarTimes.firstLight),
 				last_light: formatUtcTime(solarTimes.lastLight),
+				apparent_sunrise: formatUtcTime(solarTimes.apparentSunrise),
+				apparent_sunset: formatUtcTime(solarTimes.apparentSunset),
+				golden_hour_end: formatUtcTime(solarTimes.goldenHourEnd),
+				golden_hour_start: formatUtcTime(solarTimes.goldenHourStart),
+				civil_dusk: formatUtcTime(solarTimes.civilDusk),
 				day_length_hours: Math.round(solarTimes.dayLength * 100) / 100
 			},
 			local_times: {
 				sunrise: formatLocalTime(solarTimes.sunrise),
 				sunset: formatLocalTime(solarTimes.sunset),
 				first_light: formatLocalTime(solarTimes.firstLight),
-				last_light: formatLocalTime(solarTimes.lastLight)
+				last_light: formatLocalTime(solarTimes.lastLight),
+				apparent_sunrise: formatLocalTime(solarTimes.apparentSunrise),
+				apparent_sunset: formatLocalTime(solarTimes.apparentSunset),
+				golden_hour_end: formatLocalTime(solarTimes.goldenHourEnd),
+				golden_hour_start: formatLocalTime(solarTimes.goldenHourStart),
+				civil_dusk: formatLocalTime(solarTimes.civilDusk)
 			}
 		});
 
@@ -204,6 +237,403 @@ app.get("webcams/:webcamId/solar-times", async (c) => {
 	}
 });
 
+// Admin routes and the routes that queue renders require the ADMIN_API_TOKEN secret as a bearer token
+const requireAdminToken = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+	const token = parseBearerToken(c.req.header('Authorization'));
+	if (!c.env.ADMIN_API_TOKEN || !token || await hashUploadToken(token) !== await hashUploadToken(c.env.ADMIN_API_TOKEN)) {
+		return c.json({
+			success: false,
+			error: 'Unauthorized',
+			message: 'A valid admin token is required'
+		}, 401);
+	}
+
+	await next();
+});
+
+app.use("admin/*", requireAdminToken);
+
+// Preview a webcams image preset applied to its latest image
+// An unsaved preset can be previewed by passing it as JSON in the preset query parameter
+app.get("admin/webcams/:webcamId/preset/preview", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const webcamId = parseInt(c.req.param('webcamId'), 10);
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'Webcam ID must be a valid number'
+			}, 400);
+		}
+
+		const webcam = await repo.webcams.getWebcamById(webcamId);
+		if (!webcam) {
+			return c.json({
+				success: false,
+				error: 'Webcam not found',
+				message: `No webcam found with ID ${webcamId}`
+			}, 404);
+		}
+
+		let preset = webcam.imagePreset ?? {};
+		const presetParam = c.req.query('preset');
+		if (presetParam) {
+			try {
+				preset = parseImagePreset(JSON.parse(presetParam));
+			} catch (error) {
+				return c.json({
+					success: false,
+					error: 'Invalid preset',
+					message: error instanceof Error ? error.message : String(error)
+				}, 400);
+			}
+		}
+
+		const latestImage = await repo.imageRepository.getLatestImageForWebcam(webcamId);
+		const imageObject = latestImage ? await c.env.STORAGE_BUCKET.get(latestImage.objectName) : null;
+		if (!latestImage || !imageObject) {
+			return c.json({
+				success: false,
+				error: 'Image not found',
+				message: `No images have been captured for webcam ${webcam.name}`
+			}, 404);
+		}
+
+		const decodedImage = decodeJpeg(await imageObject.arrayBuffer());
+		if (!decodedImage) {
+			return c.json({
+				success: false,
+				error: 'Unsupported image',
+				message: `The latest image for webcam ${webcam.name} is not a jpeg that can be decoded`
+			}, 422);
+		}
+
+		const preview = encodeJpeg(applyImagePreset(decodedImage, preset), 85);
+		return c.body(preview, 200, {
+			'Content-Type': 'image/jpeg',
+			'Cache-Control': 'no-store',
+			'X-Image-Key': latestImage.objectName
+		});
+	} catch (error) {
+		console.error('Error previewing image preset:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to preview image preset',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Receive an image uploaded by a webcam that pushes its images
+// The camera authenticates with one of its upload tokens and can send the capture time as a unix timestamp
+// or ISO date in the timestamp query parameter or X-Capture-Timestamp header
+app.post("webcams/:webcamId/images", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const webcamId = parseInt(c.req.param('webcamId'), 10);
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'Webcam ID must be a valid number'
+			}, 400);
+		}
+
+		const token = parseBearerToken(c.req.header('Authorization'));
+		const uploadToken = token ? await repo.uploadTokens.getActiveUploadToken(webcamId, await hashUploadToken(token)) : null;
+		if (!uploadToken) {
+			return c.json({
+				success: false,
+				error: 'Unauthorized',
+				message: 'A valid upload token for this webcam is required'
+			}, 401);
+		}
+
+		const webcam = await repo.webcams.getWebcamById(webcamId);
+		if (!webcam) {
+			return c.json({
+				success: false,
+				error: 'Webcam not found',
+				message: `No webcam found with ID ${webcamId}`
+			}, 404);
+		}
+
+		if (!webcam.enabled) {
+			return c.json({
+				success: false,
+				error: 'Webcam disabled',
+				message: `Webcam ${webcam.name} is not accepting images`
+			}, 403);
+		}
+
+		const contentType = c.req.header('Content-Type') ?? '';
+		if (!ALLOWED_IMAGE_CONTENT_TYPES.includes(contentType.split(';')[0].trim().toLowerCase())) {
+			return c.json({
+				success: false,
+				error: 'Unsupported media type',
+				message: 'Images must be uploaded as image/jpeg, image/png or image/webp'
+			}, 415);
+		}
+
+		const contentLength = parseInt(c.req.header('Content-Length') ?? '', 10);
+		if (contentLength > MAX_UPLOAD_BYTES) {
+			return c.json({
+				success: false,
+				error: 'Image too large',
+				message: `Images must be at most ${MAX_UPLOAD_BYTES} bytes`
+			}, 413);
+		}
+
+		const timestampParam = c.req.query('timestamp') ?? c.req.header('X-Capture-Timestamp');
+		const sourceTimestamp = parseUploadTimestamp(timestampParam);
+		if (timestampParam && sourceTimestamp === null) {
+			return c.json({
+				success: false,
+				error: 'Invalid timestamp',
+				message: 'Timestamp must be a unix timestamp or an ISO 8601 date'
+			}, 400);
+		}
+
+		// Stream the body so an upload without a Content-Length is cut off as soon as it passes the limit
+		let imageData: ArrayBuffer;
+		try {
+			imageData = await readStreamWithLimit(c.req.raw, MAX_UPLOAD_BYTES);
+		} catch (error) {
+			if (error instanceof WebcamFetchError && error.errorType === 'image_too_large') {
+				return c.json({
+					success: false,
+					error: 'Image too large',
+					message: `Images must be at most ${MAX_UPLOAD_BYTES} bytes`
+				}, 413);
+			}
+			throw error;
+		}
+
+		if (imageData.byteLength === 0) {
+			return c.json({
+				success: false,
+				error: 'Empty image',
+				message: `Images must be between 1 and ${MAX_UPLOAD_BYTES} bytes`
+			}, 400);
+		}
+
+		const validation = validateImageContent(contentType, imageData);
+		if (!validation.valid) {
+			return c.json({
+				success: false,
+				error: 'Unsupported media type',
+				message: validation.reason
+			}, 415);
+		}
+
+		await repo.uploadTokens.markUploadTokenUsed(uploadToken.id);
+
+		const result = await ingestUploadedImage(repo, c.env.STORAGE_BUCKET, webcam, {
+			imageData,
+			contentType: validation.contentType,
+			receivedAt: Date.now(),
+			sourceTimestamp,
+			lastModified: null,
+			sourceUrl: null,
+		}, getThumbnailOptions(c.env));
+
+		if (result.outcome === 'rejected') {
+			return c.json({
+				success: false,
+				error: 'Frame rejected',
+				message: result.reason
+			}, 422);
+		}
+
+		return c.json({
+			success: true,
+			outcome: result.outcome,
+			reason: result.reason,
+			image_key: result.imageKey
+		}, result.outcome === 'captured' ? 201 : 200);
+	} catch (error) {
+		console.error('Error receiving uploaded image:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to save uploaded image',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Success rate of each of a webcams source urls over the last few days (default 7)
+app.get("admin/webcams/:webcamId/sources", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const webcamId = parseInt(c.req.param('webcamId'), 10);
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'Webcam ID must be a valid number'
+			}, 400);
+		}
+
+		const webcam = await repo.webcams.getWebcamById(webcamId);
+		if (!webcam) {
+			return c.json({
+				success: false,
+				error: 'Webcam not found',
+				message: `No webcam found with ID ${webcamId}`
+			}, 404);
+		}
+
+		const days = Math.min(Math.max(parseInt(c.req.query('days') ?? '7', 10) || 7, 1), 90);
+		const endDate = new Date();
+		const startDate = new Date(endDate.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+		const rates = await repo.diagnostics.getSourceSuccessRates(webcamId, startDate.toISOString().split('T')[0], endDate.toISOString().split('T')[0]);
+
+		return c.json({
+			success: true,
+			webcam_id: webcamId,
+			days,
+			sources: [webcam.url, ...(webcam.fallbackUrls ?? [])].map((sourceUrl, index) => {
+				const rate = rates.find(r => r.sourceUrl === sourceUrl);
+				return {
+					source_url: sourceUrl,
+					primary: index === 0,
+					attempts: rate?.attempts ?? 0,
+					successes: rate?.successes ?? 0,
+					success_rate: rate ? Math.round(rate.successRate * 1000) / 1000 : null,
+					last_error: rate?.lastError ?? null
+				};
+			})
+		});
+	} catch (error) {
+		console.error('Error fetching source diagnostics:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to fetch source diagnostics',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// List the upload tokens issued for a webcam, the tokens themselves are never returned
+app.get("admin/webcams/:webcamId/upload-tokens", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const webcamId = parseInt(c.req.param('webcamId'), 10);
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'Webcam ID must be a valid number'
+			}, 400);
+		}
+
+		const tokens = await repo.uploadTokens.getUploadTokensForWebcam(webcamId);
+		return c.json({
+			success: true,
+			webcam_id: webcamId,
+			tokens: tokens.map(token => ({
+				id: token.id,
+				label: token.label,
+				created_at: token.createdAt,
+				last_used_at: token.lastUsedAt,
+				revoked_at: token.revokedAt
+			}))
+		});
+	} catch (error) {
+		console.error('Error fetching upload tokens:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to fetch upload tokens',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Issue an upload token for a webcam, the token is only returned in this response
+app.post("admin/webcams/:webcamId/upload-tokens", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const webcamId = parseInt(c.req.param('webcamId'), 10);
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'Webcam ID must be a valid number'
+			}, 400);
+		}
+
+		const webcam = await repo.webcams.getWebcamById(webcamId);
+		if (!webcam) {
+			return c.json({
+				success: false,
+				error: 'Webcam not found',
+				message: `No webcam found with ID ${webcamId}`
+			}, 404);
+		}
+
+		const body = await c.req.json<{ label?: unknown }>().catch(() => ({ label: undefined }));
+		const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null;
+
+		const token = generateUploadToken();
+		const uploadToken = await repo.uploadTokens.createUploadToken(webcamId, await hashUploadToken(token), label);
+
+		return c.json({
+			success: true,
+			token,
+			upload_token: {
+				id: uploadToken.id,
+				label: uploadToken.label,
+				created_at: uploadToken.createdAt
+			}
+		}, 201);
+	} catch (error) {
+		console.error('Error issuing upload token:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to issue upload token',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Revoke an upload token, uploads using it are rejected from then on
+app.delete("admin/webcams/:webcamId/upload-tokens/:tokenId", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const webcamId = parseInt(c.req.param('webcamId'), 10);
+		const tokenId = parseInt(c.req.param('tokenId'), 10);
+		if (isNaN(webcamId) || isNaN(tokenId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid ID',
+				message: 'Webcam ID and token ID must be valid numbers'
+			}, 400);
+		}
+
+		const revoked = await repo.uploadTokens.revokeUploadToken(webcamId, tokenId);
+		if (!revoked) {
+			return c.json({
+				success: false,
+				error: 'Upload token not found',
+				message: `No active upload token ${tokenId} found for webcam ${webcamId}`
+			}, 404);
+		}
+
+		return c.json({
+			success: true,
+			message: `Upload token ${tokenId} revoked`
+		});
+	} catch (error) {
+		console.error('Error revoking upload token:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to revoke upload token',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
 app.put("gifs/:id/complete", async (c) => {
 	const repo = RepositoryFactory(c.env);
 	try {
@@ -304,6 +734,231 @@ app.get('gifs/schedule', async (c) => {
 	});
 });
 
+// Request an animation of a webcam between two times (unix seconds), the frames are selected immediately and the
+// animation is rendered with the next batch, poll the status url for progress
+// Rendering is costly so queueing an animation requires the admin token
+app.post("animations", requireAdminToken, async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const body = await c.req.json<{ webcam_id?: unknown, start_time?: unknown, end_time?: unknown, frame_count?: unknown, fps?: unknown }>().catch(() => null);
+		if (!body) {
+			return c.json({
+				success: false,
+				error: 'Invalid request body',
+				message: 'Request body must be JSON'
+			}, 400);
+		}
+
+		const toInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) ? value : NaN;
+		const webcamId = toInteger(body.webcam_id);
+		const startTime = toInteger(body.start_time);
+		const endTime = toInteger(body.end_time);
+		const frameCount = toInteger(body.frame_count);
+		const fps = toInteger(body.fps);
+
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'webcam_id must be a valid number'
+			}, 400);
+		}
+
+		if (isNaN(startTime) || isNaN(endTime) || endTime <= startTime || endTime - startTime > MAX_ON_DEMAND_HOURS * 60 * 60) {
+			return c.json({
+				success: false,
+				error: 'Invalid time range',
+				message: `start_time and end_time must be unix seconds with end_time after start_time and at most ${MAX_ON_DEMAND_HOURS} hours apart`
+			}, 400);
+		}
+
+		if (isNaN(frameCount) || frameCount < 1 || frameCount > MAX_ON_DEMAND_FRAMES) {
+			return c.json({
+				success: false,
+				error: 'Invalid frame count',
+				message: `frame_count must be between 1 and ${MAX_ON_DEMAND_FRAMES}`
+			}, 400);
+		}
+
+		if (isNaN(fps) || fps < 1 || fps > MAX_ON_DEMAND_FPS) {
+			return c.json({
+				success: false,
+				error: 'Invalid fps',
+				message: `fps must be between 1 and ${MAX_ON_DEMAND_FPS}`
+			}, 400);
+		}
+
+		const webcam = await repo.webcams.getWebcamById(webcamId);
+		if (!webcam) {
+			return c.json({
+				success: false,
+				error: 'Webcam not found',
+				message: `No webcam found with ID ${webcamId}`
+			}, 404);
+		}
+
+		const result = await createOnDemandAnimation(repo, webcam, startTime, endTime, frameCount, fps);
+		if (!result.success || !result.item) {
+			return c.json({
+				success: false,
+				error: 'Failed to create animation',
+				message: result.message
+			}, 422);
+		}
+
+		return c.json({
+			success: true,
+			id: result.item.id,
+			status: result.item.status,
+			frame_count: result.item.imageList.length,
+			status_url: `/animations/${result.item.id}`
+		}, 202);
+	} catch (error) {
+		console.error('Error creating on demand animation:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to create animation',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Status of an animation, the gif storage key is set once the animation has been rendered
+app.get("animations/:id", async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const animationId = parseInt(c.req.param('id'), 10);
+		if (isNaN(animationId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid animation ID',
+				message: 'Animation ID must be a valid number'
+			}, 400);
+		}
+
+		const animation = await repo.animationQueue.getAnimationById(animationId);
+		if (!animation) {
+			return c.json({
+				success: false,
+				error: 'Animation not found',
+				message: `No animation found with ID ${animationId}`
+			}, 404);
+		}
+
+		return c.json({
+			success: true,
+			animation: {
+				id: animation.id,
+				webcam_id: animation.webcamId,
+				gif_type: animation.gifType,
+				status: animation.status,
+				start_time: animation.startTime,
+				end_time: animation.endTime,
+				frame_count: animation.imageList.length,
+				gif_storage_key: animation.status === 'completed' ? animation.gifStorageKey : null,
+				error_message: animation.errorMessage,
+				created_at: animation.createdAt,
+				processed_at: animation.processedAt
+			}
+		});
+	} catch (error) {
+		console.error('Error fetching animation:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to fetch animation',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Create a seasonal animation with one frame per day at solar noon or a local clock time (HH:mm) across a date range
+// Rendering is costly so queueing an animation requires the admin token
+app.post("animations/seasonal", requireAdminToken, async (c) => {
+	const repo = RepositoryFactory(c.env);
+	try {
+		const body = await c.req.json<{ webcam_id?: unknown, start_date?: unknown, end_date?: unknown, anchor?: unknown }>().catch(() => null);
+		if (!body) {
+			return c.json({
+				success: false,
+				error: 'Invalid request body',
+				message: 'Request body must be JSON'
+			}, 400);
+		}
+
+		const webcamId = typeof body.webcam_id === 'number' ? body.webcam_id : NaN;
+		if (isNaN(webcamId)) {
+			return c.json({
+				success: false,
+				error: 'Invalid webcam ID',
+				message: 'webcam_id must be a valid number'
+			}, 400);
+		}
+
+		// Validate date format (YYYY-MM-DD)
+		const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+		const startDate = typeof body.start_date === 'string' && dateRegex.test(body.start_date) ? body.start_date : null;
+		const endDate = typeof body.end_date === 'string' && dateRegex.test(body.end_date) ? body.end_date : null;
+		if (!startDate || !endDate) {
+			return c.json({
+				success: false,
+				error: 'Invalid date format',
+				message: 'start_date and end_date must be in YYYY-MM-DD format'
+			}, 400);
+		}
+
+		const days = (Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000) + 1;
+		if (isNaN(days) || days < 1 || days > MAX_SEASONAL_DAYS) {
+			return c.json({
+				success: false,
+				error: 'Invalid date range',
+				message: `end_date must be on or after start_date and the range at most ${MAX_SEASONAL_DAYS} days`
+			}, 400);
+		}
+
+		const anchor = parseSeasonalAnchor(body.anchor);
+		if (!anchor) {
+			return c.json({
+				success: false,
+				error: 'Invalid anchor',
+				message: "anchor must be 'solar_noon' or a local clock time in HH:mm format"
+			}, 400);
+		}
+
+		const webcam = await repo.webcams.getWebcamById(webcamId);
+		if (!webcam) {
+			return c.json({
+				success: false,
+				error: 'Webcam not found',
+				message: `No webcam found with ID ${webcamId}`
+			}, 404);
+		}
+
+		const result = await createSeasonalAnimation(repo, webcam, startDate, endDate, anchor);
+		if (!result.success || !result.item) {
+			return c.json({
+				success: false,
+				error: 'Failed to create seasonal animation',
+				message: result.message
+			}, 422);
+		}
+
+		return c.json({
+			success: true,
+			id: result.item.id,
+			status: result.item.status,
+			frame_count: result.item.imageList.length,
+			status_url: `/animations/${result.item.id}`
+		}, 202);
+	} catch (error) {
+		console.error('Error creating seasonal animation:', error);
+		return c.json({
+			success: false,
+			error: 'Failed to create seasonal animation',
+			message: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
 // Configuration endpoint
 app.get("config", async (c) => {
 	try {
@@ -324,16 +979,18 @@ app.get("config", async (c) => {
 });
 
 app.get('process', async (c) => {
+	// The logs are returned in the response so any webcam credentials are removed from them
+	const credentials = Object.values(getRequestSecrets(c.env));
 	const oldLog = console.log;
 	const logs = new Array<string>();
 	console.log = (...args) => {
-		logs.push(JSON.stringify(args));
+		logs.push(redactCredentials(JSON.stringify(args), credentials));
 		oldLog.apply(console, args);
 	}
 
 	const repo = RepositoryFactory(c.env);
 
-	await processAllWebcams(repo, c.env.STORAGE_BUCKET);
+	await processAllWebcams(repo, c.env.STORAGE_BUCKET, getCapturePlannerOptions(c.env), getThumbnailOptions(c.env), getRequestSecrets(c.env));
 	await prepareAnimationsForPendingQueue(repo, new Date());
 
 	return c.json({
@@ -415,6 +1072,7 @@ app.get("gallery/parks", async (c) => {
 });
 
 app.get("gallery/parks/:park/webcams", async (c) => {
+	const repo = RepositoryFactory(c.env);
 	try {
 		const park = c.req.param('park');
 
@@ -423,32 +1081,42 @@ app.get("gallery/parks/:park/webcams", async (c) => {
 				w.id,
 				w.name,
 				w.display_name,
-				w.last_active_at,
-				COUNT(CASE WHEN gq.gif_type = 'sunrise' AND gq.status = 'completed' AND gq.gif_storage_key IS NOT NULL THEN 1 END) as sunrise_count,
-				COUNT(CASE WHEN gq.gif_type = 'sunset' AND gq.status = 'completed' AND gq.gif_storage_key IS NOT NULL THEN 1 END) as sunset_count,
-				COUNT(CASE WHEN gq.gif_type = 'hourly' AND gq.status = 'completed' AND gq.gif_storage_key IS NOT NULL THEN 1 END) as hourly_count,
-				COUNT(CASE WHEN gq.gif_type = 'full_day' AND gq.status = 'completed' AND gq.gif_storage_key IS NOT NULL THEN 1 END) as full_day_count,
-				COUNT(CASE WHEN gq.gif_type = 'on_demand' AND gq.status = 'completed' AND gq.gif_storage_key IS NOT NULL THEN 1 END) as on_demand_count
+				w.last_active_at
 			FROM webcams w
-			LEFT JOIN gif_creation_queue gq ON w.id = gq.webcam_id
 			WHERE w.national_park = ? AND w.enabled = 1
-			GROUP BY w.id, w.name, w.display_name, w.last_active_at
 			ORDER BY w.name
 		`).bind(park).all<any>();
 
-		const webcams = result.results.map((webcam: any) => ({
-			id: webcam.id,
-			name: webcam.name,
-			display_name: webcam.display_name,
-			last_active_at: webcam.last_active_at,
-			gif_counts: {
-				sunrise: webcam.sunrise_count,
-				sunset: webcam.sunset_count,
-				hourly: webcam.hourly_count,
-				full_day: webcam.full_day_count,
-				on_demand: webcam.on_demand_count
+		// Completed animations by type, types come from the animation profiles so they are counted per type
+		const counts = await c.env.WEBCAM_DB.prepare(`
+			SELECT
+				gq.webcam_id,
+				gq.gif_type,
+				COUNT(*) as gif_count
+			FROM gif_creation_queue gq
+			JOIN webcams w ON gq.webcam_id = w.id
+			WHERE w.national_park = ? AND w.enabled = 1 AND gq.status = 'completed' AND gq.gif_storage_key IS NOT NULL
+			GROUP BY gq.webcam_id, gq.gif_type
+		`).bind(park).all<any>();
+
+		// Every profile, seasonal and on demand animations are listed even when a webcam has none
+		const profiles = await repo.animationProfiles.getEnabledAnimationProfiles();
+		const gifTypes = [...profiles.map(profile => profile.name), SEASONAL_ANIMATION_TYPE, ON_DEMAND_ANIMATION_TYPE];
+
+		const webcams = result.results.map((webcam: any) => {
+			const gifCounts: Record<string, number> = Object.fromEntries(gifTypes.map(gifType => [gifType, 0]));
+			for (const count of counts.results.filter((count: any) => count.webcam_id === webcam.id)) {
+				gifCounts[count.gif_type] = count.gif_count;
 			}
-		}));
+
+			return {
+				id: webcam.id,
+				name: webcam.name,
+				display_name: webcam.display_name,
+				last_active_at: webcam.last_active_at,
+				gif_counts: gifCounts
+			};
+		});
 
 		return c.json({
 			success: true,
@@ -466,6 +1134,7 @@ app.get("gallery/parks/:park/webcams", async (c) => {
 });
 
 app.get("gallery/webcams/:webcamId/gifs", async (c) => {
+	const repo = RepositoryFactory(c.env);
 	try {
 		const webcamIdParam = c.req.param('webcamId');
 		const webcamId = parseInt(webcamIdParam, 10);
@@ -483,6 +1152,19 @@ app.get("gallery/webcams/:webcamId/gifs", async (c) => {
 		const limit = parseInt(c.req.query('limit') || '50', 10);
 		const offset = parseInt(c.req.query('offset') || '0', 10);
 
+		// The type must be a profile (disabled profiles keep their animations), seasonal or on demand
+		if (gifType) {
+			const profiles = await repo.animationProfiles.getAnimationProfiles();
+			const gifTypes = [...profiles.map(profile => profile.name), SEASONAL_ANIMATION_TYPE, ON_DEMAND_ANIMATION_TYPE];
+			if (!gifTypes.includes(gifType)) {
+				return c.json({
+					success: false,
+					error: 'Invalid type',
+					message: `type must be one of ${gifTypes.join(', ')}`
+				}, 400);
+			}
+		}
+
 		// Build query with optional type filter - only return GIFs with storage keys
 		let query = `
 			SELECT
@@ -493,6 +1175,7 @@ app.get("gallery/webcams/:webcamId/gifs", async (c) => {
 				gq.gif_storage_key,
 				gq.status,
 				gq.date_key,
+				gq.solar_fallback,
 				w.name as webcam_name,
 				w.display_name as webcam_display_name,
 				w.national_park
@@ -503,7 +1186,7 @@ app.get("gallery/webcams/:webcamId/gifs", async (c) => {
 
 		const params: (string | number)[] = [webcamId];
 
-		if (gifType && ['sunrise', 'sunset', 'hourly', 'full_day', 'on_demand'].includes(gifType)) {
+		if (gifType) {
 			query += ` AND gq.gif_type = ?`;
 			params.push(gifType);
 		}
@@ -524,7 +1207,8 @@ app.get("gallery/webcams/:webcamId/gifs", async (c) => {
 			webcam_name: gif.webcam_name,
 			webcam_display_name: gif.webcam_display_name,
 			national_park: gif.national_park,
-			date_key: gif.date_key
+			date_key: gif.date_key,
+			solar_fallback: gif.solar_fallback
 		}));
 
 		return c.json({
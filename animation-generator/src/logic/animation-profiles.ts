@@ -0,0 +1,245 @@
+// Animation windows described by animation profiles
+import { DateTime } from 'luxon';
+import { AnimationProfile, WebcamDto } from "../db/schema";
+import { AnimationWindowBoundary, SolarEventName, SolarFallback } from "../types";
+import {
+  calculateMoonTimes,
+  calculatePolarNightWindow,
+  calculateSunInFrameWindows,
+  calculateWebcamSolarTimes,
+  getLightWindowBounds,
+  getPolarCondition,
+  getWebcamFrame,
+  getWebcamLightWindow,
+  getWebcamObserver,
+  MoonTimes
+} from "./solar-calculations";
+
+// Frames required for animations without a profile, such as on demand animations
+export const DEFAULT_MIN_FRAMES = 3;
+
+// Frame rate for animations without a profile
+export const DEFAULT_ANIMATION_FPS = 15;
+
+// Fraction of the twilight duration after sunrise and before sunset for the sunrise_end and sunset_start events
+const SUNRISE_SUNSET_PADDING = 0.25;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Times of the solar events for a webcam on a day, events that do not happen are NaN
+ */
+export type SolarEvents = Record<SolarEventName, number>;
+
+export interface SolarDay {
+  events: SolarEvents;
+  solarFallback: SolarFallback | null;
+  sunriseInFrame: boolean;    // False when the camera has a heading and the sun does not cross its frame in the morning
+  sunsetInFrame: boolean;     // False when the camera has a heading and the sun does not cross its frame in the evening
+  moonIllumination: number;   // Illuminated fraction of the moon at moonrise, NaN if it could not be calculated
+}
+
+/**
+ * This function is used to calculate the solar events animation profile windows are relative to for a webcam and day
+ * - The light window comes from the webcams twilight type or sun elevation, padded for webcams that choose neither
+ * - Sunrise and sunset are the apparent times seen by the camera
+ * - When the sun does not rise or set only light_start and light_end are set, to the whole local day during the
+ *   midnight sun and to civil twilight around solar noon during the polar night
+ * - When the sky does not get dark enough for first or last light the darkest point of the night is used instead
+ * - Moonrise and moonset are calculated on polar days too, the moon still rises and sets during the polar night
+ * Returns null if the solar times could not be calculated
+ */
+export function calculateSolarDay(webcam: WebcamDto, dateString: string, webcamStartOfDay: number): SolarDay | null {
+  const lightWindow = getWebcamLightWindow(webcam);
+  let solarTimes = calculateWebcamSolarTimes(webcam.latLon, webcamStartOfDay, lightWindow, getWebcamObserver(webcam));
+  if (!solarTimes) {
+    return null;
+  }
+
+  const moonTimes = calculateMoonTimes(webcam.latLon, webcamStartOfDay);
+
+  // The sun does not rise or set so only the light window and moon times are available
+  if (isNaN(solarTimes.sunrise) || isNaN(solarTimes.sunset)) {
+    return calculatePolarDay(webcam, dateString, webcamStartOfDay, moonTimes);
+  }
+
+  // The sky does not get dark enough for first or last light, use the darkest point of the night instead
+  let solarFallback: SolarFallback | null = null;
+  if (isNaN(solarTimes.firstLight) || isNaN(solarTimes.lastLight)) {
+    const solarNoon = solarTimes.sunrise + (solarTimes.sunset - solarTimes.sunrise) / 2;
+    console.log(`${webcam.name}: Twilight lasts all night on ${dateString}, using the darkest point of the night for first and last light`);
+
+    solarFallback = 'twilight_all_night';
+    solarTimes = {
+      ...solarTimes,
+      firstLight: isNaN(solarTimes.firstLight) ? solarNoon - 12 * HOUR_MS : solarTimes.firstLight,
+      lastLight: isNaN(solarTimes.lastLight) ? solarNoon + 12 * HOUR_MS : solarTimes.lastLight,
+    };
+  }
+
+  // The padding would run past the darkest point of the night when twilight lasts all night
+  const { lightStart, lightEnd } = solarFallback
+    ? { lightStart: solarTimes.firstLight, lightEnd: solarTimes.lastLight }
+    : getLightWindowBounds(solarTimes, lightWindow);
+  const sunriseDuration = solarTimes.apparentSunrise - solarTimes.firstLight;
+  const sunsetDuration = solarTimes.lastLight - solarTimes.apparentSunset;
+  const solarNoon = solarTimes.sunrise + (solarTimes.sunset - solarTimes.sunrise) / 2;
+
+  // Cameras facing away from the sunrise or sunset do not see it
+  const frame = getWebcamFrame(webcam);
+  const sunInFrameWindows = frame ? calculateSunInFrameWindows(webcam.latLon, webcamStartOfDay, frame) : null;
+  const sunInFrameWindow = (sunInFrameWindows ?? []).reduce<{ start: number, end: number } | null>(
+    (longest, window) => !longest || window.end - window.start > longest.end - longest.start ? window : longest, null);
+  const sunriseInFrame = !sunInFrameWindows || sunInFrameWindows.some(window => window.start < solarNoon);
+  const sunsetInFrame = !sunInFrameWindows || sunInFrameWindows.some(window => window.end > solarNoon);
+  if (!sunriseInFrame) {
+    console.log(`${webcam.name}: Sun does not cross the frame in the morning, skipping morning animations`);
+  }
+  if (!sunsetInFrame) {
+    console.log(`${webcam.name}: Sun does not cross the frame in the evening, skipping evening animations`);
+  }
+
+  return {
+    events: {
+      light_start: lightStart,
+      first_light: solarTimes.firstLight,
+      sunrise: solarTimes.apparentSunrise,
+      sunrise_end: solarTimes.apparentSunrise + (SUNRISE_SUNSET_PADDING * sunriseDuration),
+      golden_hour_end: solarTimes.goldenHourEnd,
+      solar_noon: solarNoon,
+      golden_hour_start: solarTimes.goldenHourStart,
+      sunset_start: solarTimes.apparentSunset - (SUNRISE_SUNSET_PADDING * sunsetDuration),
+      sunset: solarTimes.apparentSunset,
+      civil_dusk: solarTimes.civilDusk,
+      last_light: solarTimes.lastLight,
+      light_end: lightEnd,
+      sun_in_frame_start: sunInFrameWindow?.start ?? NaN,
+      sun_in_frame_end: sunInFrameWindow?.end ?? NaN,
+      moonrise: moonTimes?.moonrise ?? NaN,
+      moonset: moonTimes?.moonset ?? NaN,
+    },
+    solarFallback,
+    sunriseInFrame,
+    sunsetInFrame,
+    moonIllumination: moonTimes?.illumination ?? NaN,
+  };
+}
+
+function calculatePolarDay(webcam: WebcamDto, dateString: string, webcamStartOfDay: number, moonTimes: MoonTimes | null): SolarDay | null {
+  const polarCondition = getPolarCondition(webcam.latLon, webcamStartOfDay);
+
+  let window: { start: number, end: number } | null = null;
+  if (polarCondition === 'midnight_sun') {
+    const localDay = DateTime.fromISO(dateString, { zone: webcam.timezone ?? '' }).startOf('day');
+    window = { start: localDay.toMillis(), end: localDay.plus({ days: 1 }).toMillis() };
+  } else if (polarCondition === 'polar_night') {
+    window = calculatePolarNightWindow(webcam.latLon, webcamStartOfDay);
+  }
+
+  if (!polarCondition || !window) {
+    console.log(`Could not calculate sunrise or sunset for ${webcam.name} on ${dateString}`);
+    return null;
+  }
+
+  console.log(`${webcam.name}: ${polarCondition === 'midnight_sun' ? 'Midnight sun' : 'Polar night'} on ${dateString}, `
+    + `using a light window from ${new Date(window.start).toISOString()} to ${new Date(window.end).toISOString()}`);
+
+  return {
+    events: {
+      light_start: window.start,
+      first_light: NaN,
+      sunrise: NaN,
+      sunrise_end: NaN,
+      golden_hour_end: NaN,
+      solar_noon: NaN,
+      golden_hour_start: NaN,
+      sunset_start: NaN,
+      sunset: NaN,
+      civil_dusk: NaN,
+      last_light: NaN,
+      light_end: window.end,
+      sun_in_frame_start: NaN,
+      sun_in_frame_end: NaN,
+      moonrise: moonTimes?.moonrise ?? NaN,
+      moonset: moonTimes?.moonset ?? NaN,
+    },
+    solarFallback: polarCondition,
+    sunriseInFrame: false,
+    sunsetInFrame: false,
+    moonIllumination: moonTimes?.illumination ?? NaN,
+  };
+}
+
+/**
+ * Check if a profile creates animations for a webcam on a day
+ * - The profile lists the webcam, or lists no webcams
+ * - Cameras with a heading see the sun in the half of the day the profile requires
+ * - Days without a sunrise or sunset only use profiles that include polar days
+ * - Profiles that require moonlight only apply to webcams in night mode, on days the moon is at least as illuminated
+ *   as the webcams night mode threshold
+ */
+export function profileAppliesToWebcam(profile: AnimationProfile, webcam: WebcamDto, solarDay: SolarDay): boolean {
+  if (profile.webcamIds && !profile.webcamIds.includes(webcam.id)) {
+    return false;
+  }
+
+  if (profile.requireSunInFrame === 'morning' && !solarDay.sunriseInFrame) {
+    return false;
+  }
+
+  if (profile.requireSunInFrame === 'evening' && !solarDay.sunsetInFrame) {
+    return false;
+  }
+
+  if (profile.requireMoonlight && (webcam.nightModeMinIllumination === null || webcam.nightModeMinIllumination === undefined
+    || !(solarDay.moonIllumination >= webcam.nightModeMinIllumination))) {
+    return false;
+  }
+
+  const isPolarDay = solarDay.solarFallback === 'midnight_sun' || solarDay.solarFallback === 'polar_night';
+  return !isPolarDay || !!profile.includeOnPolarDays;
+}
+
+/**
+ * Get the time of a profile window boundary on a day, NaN if the solar event does not happen that day or the
+ * solar events could not be calculated
+ * Clock times are local times in the webcams timezone on the given date
+ */
+export function resolveWindowBoundary(boundary: AnimationWindowBoundary, solarDay: SolarDay | null, dateString: string, timezone: string): number {
+  const offset = (boundary.offsetMinutes ?? 0) * 60 * 1000;
+
+  if ('event' in boundary) {
+    return solarDay ? solarDay.events[boundary.event] + offset : NaN;
+  }
+
+  const clockTime = DateTime.fromISO(`${dateString}T${boundary.clockTime}`, { zone: timezone });
+  return clockTime.isValid ? clockTime.toMillis() + offset : NaN;
+}
+
+/**
+ * Get the windows a profile creates animations for on a day
+ * Hourly profiles create a window for each whole hour between the start and end, other profiles create a single window
+ */
+export function getProfileWindows(
+  profile: AnimationProfile,
+  solarDay: SolarDay,
+  dateString: string,
+  timezone: string
+): { start: number, end: number }[] {
+  const start = resolveWindowBoundary(profile.windowStart, solarDay, dateString, timezone);
+  const end = resolveWindowBoundary(profile.windowEnd, solarDay, dateString, timezone);
+
+  if (isNaN(start) || isNaN(end) || end <= start) {
+    return [];
+  }
+
+  if (!profile.repeatHourly) {
+    return [{ start, end }];
+  }
+
+  const windows: { start: number, end: number }[] = [];
+  for (let hour = Math.ceil(start / HOUR_MS) * HOUR_MS; hour + HOUR_MS <= end; hour += HOUR_MS) {
+    windows.push({ start: hour, end: hour + HOUR_MS });
+  }
+  return windows;
+}
@@ -1,24 +1,25 @@
-import { Image } from "@/db/schema";
+import { AnimationProfile, Image } from "@/db/schema";
 import { AnimationType } from "../types";
+import { DEFAULT_MIN_FRAMES } from "./animation-profiles";
 import { extractTimestampFromImageKey } from "./image";
 
+// Animations requested through the API for a time range, rather than scheduled from a profile
+export const ON_DEMAND_ANIMATION_TYPE = 'on_demand';
+
+// Limits for on demand animation requests
+export const MAX_ON_DEMAND_FRAMES = 600;
+export const MAX_ON_DEMAND_FPS = 60;
+export const MAX_ON_DEMAND_HOURS = 7 * 24;
+
 /**
- * Check if an animation type has the minimum required images
+ * Check if an animation has the minimum required images for its profile
  */
-export function hasMinimumImages(animationType: AnimationType, imageCount: number): boolean {
-  const minimums = {
-	'hourly': 5,
-	'sunrise': 3,
-	'sunset': 3,
-	'full_day': 10,
-	'on_demand': 3
-  };
-
-  return imageCount >= minimums[animationType];
+export function hasMinimumImages(profile: AnimationProfile | undefined, imageCount: number): boolean {
+  return imageCount >= (profile?.minFrames ?? DEFAULT_MIN_FRAMES);
 }
 
 /**
- * Generate a storage key for an animation in R2
+ * Generate a storage key for an animation in R2, animations that repeat hourly include the hour
  */
 export function generateAnimationStorageKey(
   nationalPark: string,
@@ -27,7 +28,7 @@ export function generateAnimationStorageKey(
   dateStamp: string,
   hourStr?: string,
 ): string {
-  if (animationType == 'hourly') {
+  if (hourStr) {
 	return `gifs/${nationalPark}/${webcamName}/${animationType}/${dateStamp}_${hourStr}.mp4`;
   } else {
 	return `gifs/${nationalPark}/${webcamName}/${animationType}/${dateStamp}.mp4`;
@@ -120,6 +121,13 @@ export function generateAnimationStorageKey(
 // }
 
 
+/**
+ * Get the time the camera took an image (seconds), falling back to the time it was fetched
+ */
+export function getImageCaptureTime(image: Image): number {
+	return image.sourceTimeStamp ?? image.timeStamp;
+}
+
 export function interpolateImages(sourceImages: Image[], totalImages: number, start: number, end: number): Image[] {
 	// Handle edge cases
 	if (sourceImages.length === 0 || totalImages <= 0) {
@@ -127,7 +135,7 @@ export function interpolateImages(sourceImages: Image[], totalImages: number, st
 	}
 
 	// Parse timestamps from image keys and create objects with both timestamp and original key
-	const imagesWithTimestamps = sourceImages.filter(x => x.timeStamp != null);
+	const imagesWithTimestamps = sourceImages.filter(x => getImageCaptureTime(x) != null);
 
 	// If no valid timestamps found, return empty array
 	if (imagesWithTimestamps.length === 0) {
@@ -135,7 +143,7 @@ export function interpolateImages(sourceImages: Image[], totalImages: number, st
 	}
 
 	// Sort by timestamp to ensure chronological order
-	imagesWithTimestamps.sort((a, b) => a.timeStamp - b.timeStamp);
+	imagesWithTimestamps.sort((a, b) => getImageCaptureTime(a) - getImageCaptureTime(b));
 
 	// Calculate time span and interval
 	const interval = (end - start) / totalImages;
@@ -144,13 +152,13 @@ export function interpolateImages(sourceImages: Image[], totalImages: number, st
 	let targetTimestamp = start;
 	while (targetTimestamp <= end)
 	{
-		if (imagesWithTimestamps[0].timeStamp > targetTimestamp) {
+		if (getImageCaptureTime(imagesWithTimestamps[0]) > targetTimestamp) {
 			returnImages.push(imagesWithTimestamps[0]);
 			targetTimestamp = targetTimestamp + interval;
 			continue;
 		}
 
-		if (imagesWithTimestamps[imagesWithTimestamps.length - 1].timeStamp < targetTimestamp) {
+		if (getImageCaptureTime(imagesWithTimestamps[imagesWithTimestamps.length - 1]) < targetTimestamp) {
 			returnImages.push(imagesWithTimestamps[imagesWithTimestamps.length - 1]);
 			targetTimestamp = targetTimestamp + interval;
 			continue;
@@ -161,7 +169,7 @@ export function interpolateImages(sourceImages: Image[], totalImages: number, st
 			const thisImage = imagesWithTimestamps[i];
 			const nextImage = imagesWithTimestamps[i+1];
 
-			if (thisImage.timeStamp <= targetTimestamp && nextImage.timeStamp > targetTimestamp) {
+			if (getImageCaptureTime(thisImage) <= targetTimestamp && getImageCaptureTime(nextImage) > targetTimestamp) {
 				targetImage = thisImage
 				break;
 			}
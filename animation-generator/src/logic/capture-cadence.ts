@@ -0,0 +1,69 @@
+// Capture cadence for a webcam over the solar day
+import { WebcamDto } from "../db/schema";
+import { CaptureCadencePhase } from "../types";
+import { calculateWebcamSolarTimes, getWebcamLightWindow, SolarTimes } from "./solar-calculations";
+
+// Minutes either side of solar noon that use the noon interval when a profile does not set its own window
+export const DEFAULT_NOON_WINDOW_MINUTES = 120;
+
+export interface CaptureCadence {
+  intervalMinutes: number;
+  phase: CaptureCadencePhase;
+}
+
+/**
+ * This function is used to get the capture interval for a webcam at the given time from its cadence profile
+ * - Between firstLight and sunrise and between sunset and lastLight the twilight interval is used, so sunrise
+ *   and sunset animations have enough frames
+ * - Within the noon window either side of solar noon (half way between sunrise and sunset) the noon interval is used
+ * - Otherwise, or when the webcam has no profile or location, webcams.interval_minutes is used
+ */
+export function getCaptureCadence(webcam: WebcamDto, currentTime: number): CaptureCadence {
+  const baseCadence: CaptureCadence = { intervalMinutes: Math.max(webcam.intervalMinutes || 1, 1), phase: 'base' };
+
+  const profile = webcam.captureCadence;
+  if (!profile || (!profile.twilightIntervalMinutes && !profile.noonIntervalMinutes)) {
+    return baseCadence;
+  }
+
+  const solarTimes = calculateWebcamSolarTimes(webcam.latLon, currentTime, getWebcamLightWindow(webcam));
+  if (!solarTimes) {
+    return baseCadence;
+  }
+
+  const phase = getCadencePhase(solarTimes, currentTime, profile.noonWindowMinutes ?? DEFAULT_NOON_WINDOW_MINUTES);
+  const intervalMinutes = phase === 'twilight' ? profile.twilightIntervalMinutes
+    : phase === 'solar_noon' ? profile.noonIntervalMinutes
+    : null;
+
+  return intervalMinutes ? { intervalMinutes: Math.max(intervalMinutes, 1), phase } : baseCadence;
+}
+
+/**
+ * Describe a cadence for the reason returned by shouldCaptureImage
+ */
+export function describeCaptureCadence(cadence: CaptureCadence): string {
+  const phase = cadence.phase === 'base' ? 'base' : cadence.phase.replace('_', ' ');
+  return `${phase} cadence, every ${cadence.intervalMinutes} min`;
+}
+
+function getCadencePhase(solarTimes: SolarTimes, currentTime: number, noonWindowMinutes: number): CaptureCadencePhase {
+  const { firstLight, sunrise, sunset, lastLight } = solarTimes;
+
+  // Polar day and night have no twilight or noon window
+  if (isNaN(sunrise) || isNaN(sunset)) {
+    return 'base';
+  }
+
+  if ((!isNaN(firstLight) && currentTime >= firstLight && currentTime < sunrise)
+    || (!isNaN(lastLight) && currentTime > sunset && currentTime <= lastLight)) {
+    return 'twilight';
+  }
+
+  const solarNoon = sunrise + (sunset - sunrise) / 2;
+  if (Math.abs(currentTime - solarNoon) <= noonWindowMinutes * 60 * 1000) {
+    return 'solar_noon';
+  }
+
+  return 'base';
+}
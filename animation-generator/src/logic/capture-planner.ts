@@ -0,0 +1,251 @@
+// Planning of which webcams are captured in each cron cycle
+import { CaptureHost, WebcamDto } from "../db/schema";
+import { getCaptureCadence } from "./capture-cadence";
+
+/**
+ * Limits applied to a single capture cycle
+ */
+export interface CapturePlannerOptions {
+  maxWebcamsPerCycle: number;   // Most webcams processed in one cron run
+  concurrency: number;          // Most webcams processed at the same time
+  cycleTimeBudgetMs: number;    // No new webcams are started once the cycle has run this long
+}
+
+export const DEFAULT_CAPTURE_PLANNER_OPTIONS: CapturePlannerOptions = {
+  maxWebcamsPerCycle: 40,
+  concurrency: 6,
+  cycleTimeBudgetMs: 25 * 1000,
+};
+
+/**
+ * Politeness limits for the webcams sharing an origin host
+ */
+export interface HostLimit {
+  maxConcurrency: number;         // Most fetches to the host at the same time
+  minSpacingMs: number;           // Least time between starting fetches to the host
+  nextAllowedAt: number | null;   // No fetches before this time, set from Retry-After
+}
+
+export const DEFAULT_HOST_LIMIT: HostLimit = {
+  maxConcurrency: 2,
+  minSpacingMs: 1000,
+  nextAllowedAt: null,
+};
+
+// Fetches whose host will not allow them within this time are left for the next cycle
+export const MAX_HOST_WAIT_MS = 5 * 1000;
+
+// How often a fetch waiting on a busy host checks again
+const HOST_POLL_INTERVAL_MS = 250;
+
+/**
+ * The webcams selected for a capture cycle
+ */
+export interface CapturePlan {
+  minuteSlot: number;
+  webcams: WebcamDto[];
+  deferred: WebcamDto[];
+}
+
+/**
+ * Read the capture planner options from the worker environment, falling back to the defaults
+ */
+export function getCapturePlannerOptions(env: Env): CapturePlannerOptions {
+  const parse = (value: string | undefined, fallback: number): number => {
+    const parsed = parseInt(value ?? '', 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+  };
+
+  return {
+    maxWebcamsPerCycle: parse(env.CAPTURE_MAX_WEBCAMS_PER_CYCLE, DEFAULT_CAPTURE_PLANNER_OPTIONS.maxWebcamsPerCycle),
+    concurrency: parse(env.CAPTURE_CONCURRENCY, DEFAULT_CAPTURE_PLANNER_OPTIONS.concurrency),
+    cycleTimeBudgetMs: parse(env.CAPTURE_CYCLE_BUDGET_MS, DEFAULT_CAPTURE_PLANNER_OPTIONS.cycleTimeBudgetMs),
+  };
+}
+
+/**
+ * Check if the minute slot is one of the webcams capture slots
+ * Webcams are spread across the minutes of their interval using their id, so a webcam with an interval of
+ * 5 minutes and an id of 7 is captured on minutes 2, 7, 12, ... of the day
+ */
+export function isWebcamInMinuteSlot(webcam: WebcamDto, minuteSlot: number, intervalMinutes: number = webcam.intervalMinutes || 1): boolean {
+  const interval = Math.max(intervalMinutes, 1);
+  return minuteSlot % interval === webcam.id % interval;
+}
+
+/**
+ * This function will plan which webcams should be processed in the capture cycle that starts at currentTime
+ * - Only webcams whose capture slot matches the current minute are included, using the interval from the
+ *   webcams cadence profile at currentTime
+ * - Push webcams upload their own images and are never planned
+ * - When more webcams are due than maxWebcamsPerCycle the ones that have gone longest without a capture are
+ *   processed first and the rest are deferred
+ */
+export function planCaptureCycle(
+  webcams: WebcamDto[],
+  currentTime: number,
+  options: CapturePlannerOptions,
+  hostLimits: Map<string, HostLimit> = new Map()
+): CapturePlan {
+  const minuteSlot = Math.floor(currentTime / (60 * 1000));
+
+  const due = webcams
+    .filter(webcam => webcam.sourceType !== 'push'
+      && isWebcamInMinuteSlot(webcam, minuteSlot, getCaptureCadence(webcam, currentTime).intervalMinutes))
+    .sort((a, b) => lastActiveTime(a) - lastActiveTime(b));
+
+  // Webcams on a host that asked us to back off wait for a later cycle
+  const isHostBackedOff = (webcam: WebcamDto) => (hostLimits.get(getWebcamHost(webcam))?.nextAllowedAt ?? 0) > currentTime;
+  const allowed = due.filter(webcam => !isHostBackedOff(webcam));
+
+  return {
+    minuteSlot,
+    webcams: allowed.slice(0, options.maxWebcamsPerCycle),
+    deferred: [...allowed.slice(options.maxWebcamsPerCycle), ...due.filter(isHostBackedOff)],
+  };
+}
+
+/**
+ * Get the origin host a webcam fetches its images from
+ */
+export function getWebcamHost(webcam: WebcamDto): string {
+  return getUrlHost(webcam.sourceType === 'url_template' && webcam.sourceConfig?.urlTemplate ? webcam.sourceConfig.urlTemplate : webcam.url);
+}
+
+/**
+ * Get the host of a url, lower cased to match the capture hosts table
+ */
+export function getUrlHost(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch (error) {
+    return url;
+  }
+}
+
+/**
+ * Convert the configured capture hosts into host limits, unset values use the defaults
+ */
+export function getHostLimits(captureHosts: CaptureHost[]): Map<string, HostLimit> {
+  return new Map(captureHosts.map(captureHost => {
+    const nextAllowedAt = captureHost.nextAllowedAt ? new Date(captureHost.nextAllowedAt).getTime() : NaN;
+    return [captureHost.host.toLowerCase(), {
+      maxConcurrency: Math.max(captureHost.maxConcurrency ?? DEFAULT_HOST_LIMIT.maxConcurrency, 1),
+      minSpacingMs: Math.max(captureHost.minSpacingMs ?? DEFAULT_HOST_LIMIT.minSpacingMs, 0),
+      nextAllowedAt: isNaN(nextAllowedAt) ? null : nextAllowedAt,
+    }];
+  }));
+}
+
+/**
+ * Thrown when a host will not allow a fetch within MAX_HOST_WAIT_MS, the webcam is left for a later cycle
+ */
+export class HostBusyError extends Error {
+  constructor(public host: string, public retryAt: number) {
+    super(`Host ${host} will not allow a fetch until ${new Date(retryAt).toISOString()}`);
+    this.name = 'HostBusyError';
+  }
+}
+
+/**
+ * Tracks the fetches running against each host during a capture cycle
+ */
+export class HostLimiter {
+  private running = new Map<string, number>();
+  private lastStartedAt = new Map<string, number>();
+  private nextAllowedAt = new Map<string, number>();
+
+  constructor(private limits: Map<string, HostLimit> = new Map()) {
+    for (const [host, limit] of limits) {
+      if (limit.nextAllowedAt) {
+        this.nextAllowedAt.set(host, limit.nextAllowedAt);
+      }
+    }
+  }
+
+  /**
+   * Milliseconds until a fetch to the host can start, 0 if it can start now
+   */
+  getDelay(host: string, currentTime: number): number {
+    const limit = this.limits.get(host) ?? DEFAULT_HOST_LIMIT;
+
+    const backoffDelay = (this.nextAllowedAt.get(host) ?? 0) - currentTime;
+    const spacingDelay = (this.lastStartedAt.get(host) ?? -Infinity) + limit.minSpacingMs - currentTime;
+    const concurrencyDelay = (this.running.get(host) ?? 0) >= limit.maxConcurrency ? HOST_POLL_INTERVAL_MS : 0;
+
+    return Math.max(0, backoffDelay, spacingDelay, concurrencyDelay);
+  }
+
+  start(host: string, currentTime: number): void {
+    this.running.set(host, (this.running.get(host) ?? 0) + 1);
+    this.lastStartedAt.set(host, currentTime);
+  }
+
+  finish(host: string): void {
+    this.running.set(host, Math.max(0, (this.running.get(host) ?? 0) - 1));
+  }
+
+  /**
+   * Wait until a fetch to the host can start and mark it as started, finish must be called once the fetch completes
+   * Throws a HostBusyError if the host will not allow a fetch within MAX_HOST_WAIT_MS
+   */
+  async acquire(host: string): Promise<void> {
+    const waitUntil = Date.now() + MAX_HOST_WAIT_MS;
+
+    for (let delay = this.getDelay(host, Date.now()); delay > 0; delay = this.getDelay(host, Date.now())) {
+      if (Date.now() + delay > waitUntil) {
+        throw new HostBusyError(host, Date.now() + delay);
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(delay, HOST_POLL_INTERVAL_MS)));
+    }
+
+    this.start(host, Date.now());
+  }
+
+  /**
+   * Stop fetching from a host until the given time
+   */
+  defer(host: string, until: number): void {
+    this.nextAllowedAt.set(host, Math.max(until, this.nextAllowedAt.get(host) ?? 0));
+  }
+}
+
+/**
+ * Run a worker over a list of items with at most `concurrency` running at once
+ * New items are only started while canStart returns true, items that are never started are counted as not started.
+ */
+export async function runWithConcurrencyLimit<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  canStart: () => boolean = () => true
+): Promise<{ successful: number, failed: number, notStarted: number }> {
+  let nextIndex = 0;
+  let successful = 0;
+  let failed = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (nextIndex < items.length && canStart()) {
+      const item = items[nextIndex++];
+      try {
+        await worker(item);
+        successful++;
+      } catch (error) {
+        failed++;
+      }
+    }
+  });
+
+  await Promise.all(runners);
+
+  return { successful, failed, notStarted: items.length - nextIndex };
+}
+
+function lastActiveTime(webcam: WebcamDto): number {
+  if (!webcam.lastActiveAt) {
+    return 0;
+  }
+
+  const timestamp = new Date(webcam.lastActiveAt).getTime();
+  return isNaN(timestamp) ? 0 : timestamp;
+}
@@ -0,0 +1,73 @@
+// Determining when a captured image was taken by the camera
+import { DateTime } from "luxon";
+import { WebcamDto } from "../db/schema";
+
+// Source times older than this compared to the fetch time are not trusted
+export const DEFAULT_SOURCE_TIME_WINDOW_MINUTES = 30;
+
+// Source times this far ahead of the worker clock are still trusted to allow for clock skew
+export const MAX_SOURCE_CLOCK_SKEW_MINUTES = 2;
+
+/**
+ * Where the capture time of an image came from
+ */
+export type CaptureTimeSource = 'source' | 'exif' | 'last_modified' | 'fetch';
+
+export interface CaptureTime {
+  timestamp: number;
+  source: CaptureTimeSource;
+}
+
+/**
+ * Times reported for a captured image
+ */
+export interface CaptureTimeCandidates {
+  sourceTimestamp: number | null;                           // From the source adapter (url template or JSON response)
+  exif: { dateTime: string, offset: string | null } | null; // EXIF DateTimeOriginal
+  lastModified: string | null;                              // Last-Modified response header
+}
+
+/**
+ * This function is used to determine when an image was taken.
+ * The first time that falls inside the webcams sanity window around the fetch time is used, in the order
+ * - The time reported by the source adapter
+ * - The EXIF DateTimeOriginal, read in the webcams source timezone when the camera does not record an offset
+ * - The Last-Modified header
+ * - The time the worker fetched the image
+ */
+export function resolveCaptureTime(webcam: WebcamDto, candidates: CaptureTimeCandidates, fetchedAt: number): CaptureTime {
+  const windowMinutes = webcam.sourceTimeWindowMinutes ?? DEFAULT_SOURCE_TIME_WINDOW_MINUTES;
+  const isWithinWindow = (timestamp: number | null): timestamp is number =>
+    timestamp != null
+      && !isNaN(timestamp)
+      && timestamp >= fetchedAt - windowMinutes * 60 * 1000
+      && timestamp <= fetchedAt + MAX_SOURCE_CLOCK_SKEW_MINUTES * 60 * 1000;
+
+  if (isWithinWindow(candidates.sourceTimestamp)) {
+    return { timestamp: candidates.sourceTimestamp, source: 'source' };
+  }
+
+  const exifTimestamp = candidates.exif
+    ? parseExifDateTime(candidates.exif.dateTime, candidates.exif.offset, webcam.sourceTimezone || webcam.timezone || 'UTC')
+    : null;
+  if (isWithinWindow(exifTimestamp)) {
+    return { timestamp: exifTimestamp, source: 'exif' };
+  }
+
+  const lastModifiedTimestamp = candidates.lastModified ? new Date(candidates.lastModified).getTime() : null;
+  if (isWithinWindow(lastModifiedTimestamp)) {
+    return { timestamp: lastModifiedTimestamp, source: 'last_modified' };
+  }
+
+  return { timestamp: fetchedAt, source: 'fetch' };
+}
+
+/**
+ * Parse an EXIF date time ("YYYY:MM:DD HH:MM:SS") using its offset ("+HH:MM") or the given timezone
+ */
+export function parseExifDateTime(dateTime: string, offset: string | null, timezone: string): number | null {
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `UTC${offset}` : timezone;
+  const parsed = DateTime.fromFormat(dateTime.trim(), 'yyyy:MM:dd HH:mm:ss', { zone });
+
+  return parsed.isValid ? parsed.toMillis() : null;
+}
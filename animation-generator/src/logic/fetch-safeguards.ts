@@ -0,0 +1,176 @@
+// Safeguards for fetching images from webcam origins
+import { WebcamDto } from "../db/schema";
+import { ErrorType } from "../types";
+
+// Defaults for webcams that do not set their own limits
+export const DEFAULT_FETCH_TIMEOUT_MS = 15 * 1000;
+export const DEFAULT_MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Longest Retry-After honoured, so a misconfigured origin can not stop its webcams for days
+export const MAX_RETRY_AFTER_MS = 60 * 60 * 1000;
+
+// Content types accepted from an origin, generic binary responses are accepted when the magic bytes identify an image
+export const ALLOWED_IMAGE_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/pjpeg',
+  'image/png',
+  'image/webp',
+  'application/octet-stream',
+  'binary/octet-stream',
+];
+
+/**
+ * An error fetching from a webcam origin, categorised for the webcam_errors table
+ */
+export class WebcamFetchError extends Error {
+  constructor(public errorType: ErrorType, message: string, public retryAt: number | null = null) {
+    super(message);
+    this.name = 'WebcamFetchError';
+  }
+}
+
+/**
+ * Fetch a url, aborting the request and the body read if the webcams timeout passes
+ */
+export async function fetchWithTimeout(url: string, init: RequestInit, webcam: WebcamDto): Promise<Response> {
+  const timeoutMs = webcam.fetchTimeoutMs || DEFAULT_FETCH_TIMEOUT_MS;
+
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    throw isTimeoutError(error) ? new WebcamFetchError('fetch_timeout', `Fetch timed out after ${timeoutMs}ms`) : error;
+  }
+}
+
+/**
+ * Create the error for a failed response
+ * 429 and 503 responses are rate limits and carry the time the origin asked us to wait until from their Retry-After header
+ */
+export function createResponseError(res: Response, message: string, currentTime: number = Date.now()): Error {
+  if (res.status === 429 || res.status === 503) {
+    const retryAt = parseRetryAfter(res.headers.get('retry-after'), currentTime);
+    return new WebcamFetchError('rate_limited', retryAt ? `${message}, retry after ${new Date(retryAt).toISOString()}` : message, retryAt);
+  }
+
+  return new Error(message);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into a timestamp, capped at MAX_RETRY_AFTER_MS
+ */
+export function parseRetryAfter(value: string | null, currentTime: number): number | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  const retryAt = /^\d+$/.test(trimmed) ? currentTime + parseInt(trimmed, 10) * 1000 : new Date(trimmed).getTime();
+  if (isNaN(retryAt)) {
+    return null;
+  }
+
+  return Math.min(Math.max(retryAt, currentTime), currentTime + MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Read a response body, cancelling the stream as soon as it grows past the webcams size limit
+ */
+export async function readBodyWithLimit(res: Response, webcam: WebcamDto): Promise<ArrayBuffer> {
+  return readStreamWithLimit(res, webcam.maxImageBytes || DEFAULT_MAX_IMAGE_BYTES);
+}
+
+/**
+ * Read a request or response body, cancelling the stream as soon as it grows past the byte limit
+ */
+export async function readStreamWithLimit(message: Request | Response, maxBytes: number): Promise<ArrayBuffer> {
+  const contentLength = parseInt(message.headers.get('content-length') ?? '', 10);
+  if (contentLength > maxBytes) {
+    await message.body?.cancel();
+    throw new WebcamFetchError('image_too_large', `Body of ${contentLength} bytes is larger than the ${maxBytes} byte limit`);
+  }
+
+  if (!message.body) {
+    return new ArrayBuffer(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  const reader = message.body.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      totalBytes += value.byteLength;
+      if (totalBytes > maxBytes) {
+        await reader.cancel();
+        throw new WebcamFetchError('image_too_large', `Body is larger than the ${maxBytes} byte limit`);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    throw isTimeoutError(error) ? new WebcamFetchError('fetch_timeout', 'Fetch timed out while reading the response') : error;
+  }
+
+  const body = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return body.buffer;
+}
+
+/**
+ * Identify an image from its magic bytes, returns null if the data is not a JPEG, PNG or WebP image
+ */
+export function sniffImageType(imageData: ArrayBuffer): 'image/jpeg' | 'image/png' | 'image/webp' | null {
+  const bytes = new Uint8Array(imageData);
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0xFF, 0xD8, 0xFF])) {
+    return 'image/jpeg';
+  }
+
+  if (startsWith([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) {
+    return 'image/png';
+  }
+
+  // RIFF....WEBP
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+
+  return null;
+}
+
+/**
+ * This function is used to check that a response is an image before it is stored.
+ * - The declared content type must be in the allowlist
+ * - The magic bytes must identify a JPEG, PNG or WebP image
+ * The content type identified from the magic bytes is returned as cameras often mislabel their images
+ */
+export function validateImageContent(contentType: string, imageData: ArrayBuffer):
+  { valid: true, contentType: string } | { valid: false, errorType: ErrorType, reason: string } {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (!ALLOWED_IMAGE_CONTENT_TYPES.includes(mediaType)) {
+    return { valid: false, errorType: 'invalid_content_type', reason: `Content type ${mediaType || 'missing'} is not an allowed image type` };
+  }
+
+  const sniffedType = sniffImageType(imageData);
+  if (!sniffedType) {
+    return { valid: false, errorType: 'invalid_image_data', reason: `Response declared as ${mediaType} is not a JPEG, PNG or WebP image` };
+  }
+
+  return { valid: true, contentType: sniffedType };
+}
+
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+}
@@ -0,0 +1,78 @@
+// Validation of captured frames before they are saved
+import { WebcamDto } from "../db/schema";
+import { calculateLuminanceStatistics, DecodedImage, hammingDistance, hasJpegEndMarker } from "./image";
+
+// Frames darker than this mean luminance (0 - 255) are treated as black frames
+export const DEFAULT_MIN_MEAN_LUMINANCE = 8;
+
+// Frames captured in night mode are only treated as black frames below this mean luminance (0 - 255), as a moonlit
+// scene is legitimately darker and flatter than the daytime floor allows
+export const NIGHT_MODE_MIN_MEAN_LUMINANCE = 1;
+
+// Frames with a luminance standard deviation below this are treated as blank placeholders
+export const MIN_LUMINANCE_STANDARD_DEVIATION = 2;
+
+// Maximum perceptual hash distance for a frame to match a known placeholder
+export const PLACEHOLDER_MAX_PERCEPTUAL_DISTANCE = 4;
+
+/**
+ * A captured frame to validate
+ */
+export interface CapturedFrame {
+  contentType: string;
+  imageData: ArrayBuffer;
+  imageHash: string;
+  decodedImage: DecodedImage | null;
+  perceptualHash: string | null;
+  nightMode?: boolean;   // The frame was captured by night mode while the sun was down and the moon up
+}
+
+/**
+ * This function is used to determine if a captured frame should be saved.
+ * A frame is rejected when any of the following conditions are met.
+ * - The frame matches one of the webcams known placeholder hashes (SHA-256 or perceptual)
+ * - The frame is a JPEG that is truncated or could not be decoded
+ * - The mean luminance is below the webcams luminance floor (black frame), or NIGHT_MODE_MIN_MEAN_LUMINANCE for night
+ *   mode frames
+ * - The luminance has near zero variance (blank or gray placeholder), dark night mode frames are not checked as a
+ *   moonlit scene has little variance
+ */
+export function validateFrame(webcam: WebcamDto, frame: CapturedFrame): { valid: boolean, reason: string } {
+  for (const placeholderHash of webcam.placeholderImageHashes ?? []) {
+    if (placeholderHash === frame.imageHash) {
+      return { valid: false, reason: 'matches known placeholder image' };
+    }
+
+    if (frame.perceptualHash && placeholderHash.length === frame.perceptualHash.length
+      && hammingDistance(placeholderHash, frame.perceptualHash) <= PLACEHOLDER_MAX_PERCEPTUAL_DISTANCE) {
+      return { valid: false, reason: 'matches known placeholder image (perceptual)' };
+    }
+  }
+
+  if (!frame.contentType.includes('jpeg')) {
+    return { valid: true, reason: 'not a jpeg, pixel checks skipped' };
+  }
+
+  if (!hasJpegEndMarker(frame.imageData)) {
+    return { valid: false, reason: 'truncated jpeg, missing end of image marker' };
+  }
+
+  if (!frame.decodedImage) {
+    return { valid: false, reason: 'jpeg could not be decoded' };
+  }
+
+  const luminance = calculateLuminanceStatistics(frame.decodedImage);
+  const dayMinMeanLuminance = webcam.minMeanLuminance ?? DEFAULT_MIN_MEAN_LUMINANCE;
+  const minMeanLuminance = frame.nightMode ? Math.min(NIGHT_MODE_MIN_MEAN_LUMINANCE, dayMinMeanLuminance) : dayMinMeanLuminance;
+
+  if (luminance.mean < minMeanLuminance) {
+    return { valid: false, reason: `mean luminance ${luminance.mean.toFixed(1)} below floor ${minMeanLuminance}` };
+  }
+
+  const isMoonlitScene = frame.nightMode && luminance.mean < dayMinMeanLuminance;
+  if (!isMoonlitScene && luminance.standardDeviation < MIN_LUMINANCE_STANDARD_DEVIATION) {
+    return { valid: false, reason: `luminance variance near zero (std dev ${luminance.standardDeviation.toFixed(2)})` };
+  }
+
+  return { valid: true, reason: 'frame passed validation' };
+}
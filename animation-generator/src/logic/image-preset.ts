@@ -0,0 +1,148 @@
+// Per webcam crop, mask and rotation presets
+import { ImagePreset, ImageRegion } from "../types";
+import { DecodedImage } from "./image";
+
+/**
+ * Apply a webcams image preset to a decoded image
+ * Masks are filled with black, then the image is cropped and rotated clockwise.
+ * Regions are clamped to the image so a preset made for a larger frame does not fail.
+ */
+export function applyImagePreset(image: DecodedImage, preset: ImagePreset): DecodedImage {
+  let result = image;
+
+  if (preset.masks?.length) {
+    result = { ...result, data: new Uint8Array(result.data) };
+    for (const mask of preset.masks) {
+      const region = clampRegion(mask, result);
+      for (let y = region.y; y < region.y + region.height; y++) {
+        for (let x = region.x; x < region.x + region.width; x++) {
+          const offset = (y * result.width + x) * 4;
+          result.data[offset] = 0;
+          result.data[offset + 1] = 0;
+          result.data[offset + 2] = 0;
+        }
+      }
+    }
+  }
+
+  if (preset.crop) {
+    result = cropImage(result, clampRegion(preset.crop, result));
+  }
+
+  if (preset.rotation) {
+    result = rotateImage(result, preset.rotation);
+  }
+
+  return result;
+}
+
+/**
+ * Check if a preset changes the image
+ */
+export function hasImagePreset(preset: ImagePreset | null | undefined): preset is ImagePreset {
+  return !!preset && (!!preset.crop || !!preset.masks?.length || !!preset.rotation);
+}
+
+/**
+ * Validate an image preset from user input, throws an error describing the first problem found
+ */
+export function parseImagePreset(value: unknown): ImagePreset {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Preset must be an object');
+  }
+
+  const { crop, masks, rotation } = value as Record<string, unknown>;
+  const preset: ImagePreset = {};
+
+  if (crop !== undefined && crop !== null) {
+    preset.crop = parseRegion(crop, 'crop');
+  }
+
+  if (masks !== undefined) {
+    if (!Array.isArray(masks)) {
+      throw new Error('masks must be an array');
+    }
+    preset.masks = masks.map((mask, i) => parseRegion(mask, `masks[${i}]`));
+  }
+
+  if (rotation !== undefined) {
+    if (rotation !== 0 && rotation !== 90 && rotation !== 180 && rotation !== 270) {
+      throw new Error('rotation must be 0, 90, 180 or 270');
+    }
+    preset.rotation = rotation;
+  }
+
+  return preset;
+}
+
+function parseRegion(value: unknown, name: string): ImageRegion {
+  const region = value as Record<string, unknown>;
+  if (region === null || typeof region !== 'object') {
+    throw new Error(`${name} must be an object with x, y, width and height`);
+  }
+
+  for (const key of ['x', 'y', 'width', 'height']) {
+    const number = region[key];
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < 0) {
+      throw new Error(`${name}.${key} must be a non-negative integer`);
+    }
+  }
+
+  if ((region.width as number) === 0 || (region.height as number) === 0) {
+    throw new Error(`${name} must have a width and height`);
+  }
+
+  return { x: region.x as number, y: region.y as number, width: region.width as number, height: region.height as number };
+}
+
+function clampRegion(region: ImageRegion, image: DecodedImage): ImageRegion {
+  const x = Math.min(Math.max(0, Math.floor(region.x)), image.width);
+  const y = Math.min(Math.max(0, Math.floor(region.y)), image.height);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(Math.floor(region.width), image.width - x)),
+    height: Math.max(0, Math.min(Math.floor(region.height), image.height - y)),
+  };
+}
+
+function cropImage(image: DecodedImage, region: ImageRegion): DecodedImage {
+  if (region.width === 0 || region.height === 0) {
+    return image;
+  }
+
+  const data = new Uint8Array(region.width * region.height * 4);
+  for (let y = 0; y < region.height; y++) {
+    const sourceStart = ((region.y + y) * image.width + region.x) * 4;
+    data.set(image.data.subarray(sourceStart, sourceStart + region.width * 4), y * region.width * 4);
+  }
+
+  return { width: region.width, height: region.height, data };
+}
+
+function rotateImage(image: DecodedImage, rotation: 90 | 180 | 270): DecodedImage {
+  const width = rotation === 180 ? image.width : image.height;
+  const height = rotation === 180 ? image.height : image.width;
+  const data = new Uint8Array(image.data.length);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      let targetX: number, targetY: number;
+      if (rotation === 90) {
+        targetX = image.height - 1 - y;
+        targetY = x;
+      } else if (rotation === 180) {
+        targetX = image.width - 1 - x;
+        targetY = image.height - 1 - y;
+      } else {
+        targetX = y;
+        targetY = image.width - 1 - x;
+      }
+
+      const source = (y * image.width + x) * 4;
+      data.set(image.data.subarray(source, source + 4), (targetY * width + targetX) * 4);
+    }
+  }
+
+  return { width, height, data };
+}
@@ -1,4 +1,14 @@
 // Utility functions for image processing and manipulation
+import { decode, encode } from 'jpeg-js';
+
+/**
+ * Decoded image pixels in RGBA order
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
 
 /**
  * Calculates SHA-256 hash of image data for duplicate detection
@@ -15,6 +25,256 @@ export async function calculateImageHash(imageData: ArrayBuffer): Promise<string
   }
 }
 
+/**
+ * Decodes a JPEG into RGBA pixels, returns null if the image can not be decoded
+ */
+export function decodeJpeg(imageData: ArrayBuffer): DecodedImage | null {
+  try {
+    const image = decode(imageData, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 50, maxMemoryUsageInMB: 256 });
+    return { width: image.width, height: image.height, data: image.data };
+  } catch (error) {
+    console.error("Failed to decode jpeg:", error);
+    return null;
+  }
+}
+
+/**
+ * Encodes RGBA pixels as a JPEG
+ */
+export function encodeJpeg(image: DecodedImage, quality: number): Uint8Array<ArrayBuffer> {
+  const encoded = encode({ width: image.width, height: image.height, data: image.data }, quality);
+  return new Uint8Array(encoded.data);
+}
+
+/**
+ * Downscales an image to fit within the maximum width, keeping the aspect ratio
+ * Each output pixel is the average of the source pixels it covers so the result is not aliased.
+ * Images that already fit are returned unchanged.
+ */
+export function resizeImage(image: DecodedImage, maxWidth: number): DecodedImage {
+  if (image.width <= maxWidth) {
+    return image;
+  }
+
+  const width = Math.max(1, Math.floor(maxWidth));
+  const height = Math.max(1, Math.round(image.height * width / image.width));
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sourceYStart = Math.floor(y * image.height / height);
+    const sourceYEnd = Math.max(sourceYStart + 1, Math.floor((y + 1) * image.height / height));
+
+    for (let x = 0; x < width; x++) {
+      const sourceXStart = Math.floor(x * image.width / width);
+      const sourceXEnd = Math.max(sourceXStart + 1, Math.floor((x + 1) * image.width / width));
+
+      let r = 0, g = 0, b = 0, count = 0;
+      for (let sy = sourceYStart; sy < sourceYEnd; sy++) {
+        for (let sx = sourceXStart; sx < sourceXEnd; sx++) {
+          const offset = (sy * image.width + sx) * 4;
+          r += image.data[offset];
+          g += image.data[offset + 1];
+          b += image.data[offset + 2];
+          count++;
+        }
+      }
+
+      const offset = (y * width + x) * 4;
+      data[offset] = Math.round(r / count);
+      data[offset + 1] = Math.round(g / count);
+      data[offset + 2] = Math.round(b / count);
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Get the R2 key for the thumbnail of an image, thumbnails are stored under a parallel thumbs/ prefix
+ * i.e. images/romo/{webcam.name}/{unixTimestamp}.jpg => thumbs/romo/{webcam.name}/{unixTimestamp}.jpg
+ */
+export function getThumbnailKey(imageKey: string): string {
+  const thumbnailKey = imageKey.replace(/^images\//, 'thumbs/');
+  return thumbnailKey.replace(/\.[^./]+$/, '') + '.jpg';
+}
+
+/**
+ * Calculates a 64 bit difference hash (dHash) of an image for near-duplicate detection
+ *
+ * The image is reduced to a 9x8 grid of average luminance values and each bit records whether a cell is
+ * brighter than its left neighbour. Re-encoded or slightly changed frames produce hashes with a small hamming distance.
+ */
+export function calculatePerceptualHash(image: DecodedImage): string {
+  const columns = 9;
+  const rows = 8;
+  const sums = new Float64Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.floor(y * rows / image.height);
+    for (let x = 0; x < image.width; x++) {
+      const column = Math.floor(x * columns / image.width);
+      const offset = (y * image.width + x) * 4;
+      const luminance = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+      sums[row * columns + column] += luminance;
+      counts[row * columns + column]++;
+    }
+  }
+
+  const cells = Array.from(sums, (sum, i) => counts[i] > 0 ? sum / counts[i] : 0);
+
+  let hash = '';
+  for (let row = 0; row < rows; row++) {
+    for (let nibble = 0; nibble < 2; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const column = nibble * 4 + bit;
+        value = (value << 1) | (cells[row * columns + column + 1] > cells[row * columns + column] ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Calculates the mean and standard deviation of the luminance of an image
+ */
+export function calculateLuminanceStatistics(image: DecodedImage): { mean: number, standardDeviation: number } {
+  const pixelCount = image.width * image.height;
+  if (pixelCount === 0) {
+    return { mean: 0, standardDeviation: 0 };
+  }
+
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let offset = 0; offset < pixelCount * 4; offset += 4) {
+    const luminance = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+    sum += luminance;
+    sumOfSquares += luminance * luminance;
+  }
+
+  const mean = sum / pixelCount;
+  const variance = Math.max(0, sumOfSquares / pixelCount - mean * mean);
+  return { mean, standardDeviation: Math.sqrt(variance) };
+}
+
+/**
+ * Checks that JPEG data ends with an end of image marker, allowing for a few bytes of trailing padding
+ */
+export function hasJpegEndMarker(imageData: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(imageData);
+  const searchStart = Math.max(0, bytes.length - 32);
+  for (let i = bytes.length - 2; i >= searchStart; i--) {
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0xD9) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Reads the EXIF DateTimeOriginal of a JPEG, returns null if the image has no EXIF capture time
+ * The date time is returned as written by the camera ("YYYY:MM:DD HH:MM:SS") along with the
+ * OffsetTimeOriginal ("+HH:MM") when the camera records one
+ */
+export function readExifDateTimeOriginal(imageData: ArrayBuffer): { dateTime: string, offset: string | null } | null {
+  const bytes = new Uint8Array(imageData);
+  if (bytes.length < 4 || bytes[0] !== 0xFF || bytes[1] !== 0xD8) {
+    return null;
+  }
+
+  // Find the APP1 segment holding the EXIF data
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+    const marker = bytes[offset + 1];
+    const segmentLength = (bytes[offset + 2] << 8) | bytes[offset + 3];
+
+    // Start of scan, no more metadata segments
+    if (marker === 0xDA) {
+      return null;
+    }
+
+    const isExif = marker === 0xE1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) === 'Exif';
+    if (isExif) {
+      return readExifSegment(new DataView(imageData, offset + 10, Math.min(segmentLength - 8, bytes.length - offset - 10)));
+    }
+
+    offset += 2 + segmentLength;
+  }
+
+  return null;
+}
+
+function readExifSegment(tiff: DataView): { dateTime: string, offset: string | null } | null {
+  try {
+    const littleEndian = tiff.getUint16(0) === 0x4949;
+    const readIfd = (ifdOffset: number): Map<number, { type: number, count: number, valueOffset: number }> => {
+      const entries = new Map<number, { type: number, count: number, valueOffset: number }>();
+      const entryCount = tiff.getUint16(ifdOffset, littleEndian);
+      for (let i = 0; i < entryCount; i++) {
+        const entryOffset = ifdOffset + 2 + i * 12;
+        entries.set(tiff.getUint16(entryOffset, littleEndian), {
+          type: tiff.getUint16(entryOffset + 2, littleEndian),
+          count: tiff.getUint32(entryOffset + 4, littleEndian),
+          valueOffset: entryOffset + 8,
+        });
+      }
+      return entries;
+    };
+    const readAscii = (entry: { type: number, count: number, valueOffset: number } | undefined): string | null => {
+      if (!entry || entry.type !== 2) {
+        return null;
+      }
+      const start = entry.count > 4 ? tiff.getUint32(entry.valueOffset, littleEndian) : entry.valueOffset;
+      let value = '';
+      for (let i = 0; i < entry.count - 1; i++) {
+        value += String.fromCharCode(tiff.getUint8(start + i));
+      }
+      return value;
+    };
+
+    const ifd0 = readIfd(tiff.getUint32(4, littleEndian));
+    const exifPointer = ifd0.get(0x8769);
+    if (!exifPointer) {
+      return null;
+    }
+
+    const exifIfd = readIfd(tiff.getUint32(exifPointer.valueOffset, littleEndian));
+    const dateTime = readAscii(exifIfd.get(0x9003));
+    if (!dateTime) {
+      return null;
+    }
+
+    return { dateTime, offset: readAscii(exifIfd.get(0x9011)) };
+  } catch (error) {
+    // Offsets pointing outside of the segment
+    return null;
+  }
+}
+
+/**
+ * Counts the number of differing bits between two hex encoded perceptual hashes
+ */
+export function hammingDistance(hashA: string, hashB: string): number {
+  if (hashA.length !== hashB.length) {
+    throw new Error(`Perceptual hashes must be the same length: ${hashA.length} != ${hashB.length}`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    let diff = parseInt(hashA[i], 16) ^ parseInt(hashB[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
 /**
  * Guesses file extension from content type
  */
@@ -31,7 +291,8 @@ export function guessExt(contentType: string): string {
 
 /**
  * Extract Unix timestamp from image key filename
- * Expected format: images/romo/{webcam.name}/{unixTimestamp}{ext}
+ * Expected format: images/romo/{webcam.name}/{unixTimestamp}{ext}, or images/romo/{webcam.name}/{unixTimestamp}_{hash}{ext}
+ * for images uploaded by push webcams
  */
 export function extractTimestampFromImageKey(imageKey: string): number | null {
 	try {
@@ -40,7 +301,7 @@ export function extractTimestampFromImageKey(imageKey: string): number | null {
 		const filename = parts[parts.length - 1];
 
 		// Extract timestamp by removing file extension
-		const timestampMatch = filename.match(/^(\d+)\.[a-zA-Z]+$/);
+		const timestampMatch = filename.match(/^(\d+)(?:_[0-9a-z]+)?\.[a-zA-Z]+$/);
 
 		if (timestampMatch && timestampMatch[1]) {
 			const timestamp = parseInt(timestampMatch[1], 10);
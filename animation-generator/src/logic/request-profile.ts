@@ -0,0 +1,148 @@
+// Per webcam request headers and authentication
+import { WebcamDto } from "../db/schema";
+
+// Only Worker secrets with this prefix can be referenced by a request profile, so a webcam row can not send
+// the workers own credentials to a camera
+export const REQUEST_SECRET_PREFIX = 'WEBCAM_SECRET_';
+
+// Headers that carry credentials and must come from a secret rather than the plain headers of a profile
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Secret values available to request profiles, by secret name
+ */
+export type RequestSecrets = Record<string, string>;
+
+/**
+ * Read the secrets request profiles can reference from the worker environment
+ */
+export function getRequestSecrets(env: Env): RequestSecrets {
+  const secrets: RequestSecrets = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (name.startsWith(REQUEST_SECRET_PREFIX) && typeof value === 'string' && value) {
+      secrets[name] = value;
+    }
+  }
+  return secrets;
+}
+
+/**
+ * Build the headers sent with a request for a webcam from its request profile
+ * Credentials (secret headers and authentication) are only sent when the request url has the same origin as the
+ * webcam url or url template, so images and fallbacks on other hosts never receive them
+ * Throws if the profile references a secret that is not configured or sets a credential header in plain text
+ */
+export function buildRequestHeaders(webcam: WebcamDto, secrets: RequestSecrets, requestUrl: string): Record<string, string> {
+  const profile = webcam.requestProfile;
+  const headers: Record<string, string> = {};
+  if (!profile) {
+    return headers;
+  }
+
+  for (const [name, value] of Object.entries(profile.headers ?? {})) {
+    if (CREDENTIAL_HEADERS.includes(name.toLowerCase())) {
+      throw new Error(`Request profile header ${name} must be set from a secret`);
+    }
+    headers[name] = value;
+  }
+
+  if (!isSourceOrigin(webcam, requestUrl)) {
+    return headers;
+  }
+
+  for (const [name, secretName] of Object.entries(profile.secretHeaders ?? {})) {
+    headers[name] = getSecret(secrets, secretName);
+  }
+
+  if (profile.auth?.scheme === 'basic') {
+    const credentials = `${getSecret(secrets, profile.auth.usernameSecret)}:${getSecret(secrets, profile.auth.passwordSecret)}`;
+    headers['Authorization'] = `Basic ${encodeBase64(credentials)}`;
+  } else if (profile.auth?.scheme === 'bearer') {
+    headers['Authorization'] = `Bearer ${getSecret(secrets, profile.auth.tokenSecret)}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Check if a webcams request profile sends credentials (secret headers or authentication)
+ */
+export function hasRequestCredentials(webcam: WebcamDto): boolean {
+  const profile = webcam.requestProfile;
+  return !!profile && (!!profile.auth || Object.keys(profile.secretHeaders ?? {}).length > 0);
+}
+
+/**
+ * Check if a url has the same origin as the webcam url or, for url_template sources, the url template
+ */
+export function isSourceOrigin(webcam: WebcamDto, url: string): boolean {
+  const origin = getOrigin(url);
+  if (!origin) {
+    return false;
+  }
+
+  const sourceUrls = [webcam.url, ...(webcam.sourceType === 'url_template' && webcam.sourceConfig?.urlTemplate ? [webcam.sourceConfig.urlTemplate] : [])];
+  return sourceUrls.some(sourceUrl => getOrigin(sourceUrl) === origin);
+}
+
+/**
+ * Get the credential values a webcams request profile sends, including the encoded basic auth credentials
+ */
+export function getWebcamCredentials(webcam: WebcamDto, secrets: RequestSecrets): string[] {
+  const profile = webcam.requestProfile;
+  if (!profile) {
+    return [];
+  }
+
+  const secretNames = [
+    ...Object.values(profile.secretHeaders ?? {}),
+    ...(profile.auth?.scheme === 'basic' ? [profile.auth.usernameSecret, profile.auth.passwordSecret] : []),
+    ...(profile.auth?.scheme === 'bearer' ? [profile.auth.tokenSecret] : []),
+  ];
+  const credentials = secretNames.map(name => secrets[name]).filter((value): value is string => !!value);
+
+  if (profile.auth?.scheme === 'basic' && secrets[profile.auth.usernameSecret] && secrets[profile.auth.passwordSecret]) {
+    credentials.push(encodeBase64(`${secrets[profile.auth.usernameSecret]}:${secrets[profile.auth.passwordSecret]}`));
+  }
+
+  return credentials;
+}
+
+/**
+ * Remove credentials from text before it is logged or returned
+ * The given credential values, user info in urls and authorization header values are replaced
+ */
+export function redactCredentials(text: string, credentials: string[] = []): string {
+  let redacted = text;
+
+  // Longest first so a credential containing another is replaced whole
+  for (const credential of [...credentials].sort((a, b) => b.length - a.length)) {
+    redacted = redacted.split(credential).join(REDACTED);
+  }
+
+  return redacted
+    .replace(/(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/@]+@/gi, `$1${REDACTED}@`)
+    .replace(/\b(Authorization|Proxy-Authorization)(["']?\s*[:=]\s*["']?)(Basic|Bearer)\s+[^\s"',}]+/gi, `$1$2$3 ${REDACTED}`);
+}
+
+function getSecret(secrets: RequestSecrets, name: string): string {
+  const value = secrets[name];
+  if (!name.startsWith(REQUEST_SECRET_PREFIX) || !value) {
+    throw new Error(`Request profile secret ${name} is not configured, secrets must be named ${REQUEST_SECRET_PREFIX}*`);
+  }
+  return value;
+}
+
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch (error) {
+    return null;
+  }
+}
+
+function encodeBase64(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
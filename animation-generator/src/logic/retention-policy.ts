@@ -1,10 +1,12 @@
 import { IRepository } from "@/db/repositories";
 import { RetentionPolicy } from "@/types";
-import { calculateWebcamSolarTimes } from "./solar-calculations";
+import { getImageCaptureTime } from "./animations";
+import { calculateWebcamSolarTimes, getWebcamLightWindow, getWebcamObserver } from "./solar-calculations";
 
 
 // Sunrise image retention policy should ensure that each webcam has only 1 image in a given day has
-// the image retention policy of sunrise set. The image to save should be between first light and sunrise
+// the image retention policy of sunrise set. The image to save should be between first light and the apparent
+// sunrise seen by the camera
 export const SunriseRetentionPolicy: RetentionPolicy = {
     name: 'Sunrise',
 
@@ -28,14 +30,14 @@ export const SunriseRetentionPolicy: RetentionPolicy = {
 
 
             for (const day of days) {
-                const solarTimes = calculateWebcamSolarTimes(webcam.latLon, day.getTime());
+                const solarTimes = calculateWebcamSolarTimes(webcam.latLon, day.getTime(), getWebcamLightWindow(webcam), getWebcamObserver(webcam));
 
-                if (!solarTimes || isNaN(solarTimes.sunrise) || isNaN(solarTimes.firstLight)) {
+                if (!solarTimes || isNaN(solarTimes.apparentSunrise) || isNaN(solarTimes.firstLight)) {
                     console.log('Could not calculate sunrise retention target for webcam : ' + webcam.displayName);
                     continue;
                 }
 
-                const imageTime = (solarTimes.sunrise + solarTimes.firstLight) / 2 / 1000;
+                const imageTime = (solarTimes.apparentSunrise + solarTimes.firstLight) / 2 / 1000;
 
 				console.log('imageTime ' + imageTime);
 
@@ -43,7 +45,7 @@ export const SunriseRetentionPolicy: RetentionPolicy = {
                 const images = await repo.imageRepository.getImagesForTimeRange(webcam, imageTime - (5 * 60), (15 * 60) + imageTime);
 
                 // Find the image that is closest to imageTime
-                const sunriseImage = images.sort((a, b) => Math.abs(a.timeStamp - imageTime) - Math.abs(b.timeStamp - imageTime))[0];
+                const sunriseImage = images.sort((a, b) => Math.abs(getImageCaptureTime(a) - imageTime) - Math.abs(getImageCaptureTime(b) - imageTime))[0];
 
                 if (!sunriseImage) {
                     console.log('No images found in matching sunrise window');
@@ -102,7 +104,7 @@ export const SolarNoonRetentionPolicy: RetentionPolicy = {
                 const images = await repo.imageRepository.getImagesForTimeRange(webcam, imageTime - (15 * 60 * 1000), (15 * 60 * 1000) + imageTime);
 
                 // Find the image that is closest to imageTime
-                const solarNoonImage = images.sort((a, b) => Math.abs(a.timeStamp * 1000 - imageTime) - Math.abs(b.timeStamp * 1000 - imageTime))[0];
+                const solarNoonImage = images.sort((a, b) => Math.abs(getImageCaptureTime(a) * 1000 - imageTime) - Math.abs(getImageCaptureTime(b) * 1000 - imageTime))[0];
 
                 if (!solarNoonImage) {
                     console.log('No images found in matching solar noon window');
@@ -134,7 +136,8 @@ export const SolarNoonRetentionPolicy: RetentionPolicy = {
 };
 
 // Sunset image retention policy should ensure that each webcam has only 1 image in a given day has
-// the image retention policy of sunset set. The image to save should be between sunset and last light
+// the image retention policy of sunset set. The image to save should be between the apparent sunset seen by the
+// camera and last light
 export const SunsetRetentionPolicy: RetentionPolicy = {
     name: 'Sunset',
 
@@ -146,20 +149,20 @@ export const SunsetRetentionPolicy: RetentionPolicy = {
             const days: Date[] = []; // empty for now
 
             for (const day of days) {
-                const solarTimes = calculateWebcamSolarTimes(webcam.latLon, day.getTime());
+                const solarTimes = calculateWebcamSolarTimes(webcam.latLon, day.getTime(), getWebcamLightWindow(webcam), getWebcamObserver(webcam));
 
-                if (!solarTimes || isNaN(solarTimes.sunset) || isNaN(solarTimes.lastLight)) {
+                if (!solarTimes || isNaN(solarTimes.apparentSunset) || isNaN(solarTimes.lastLight)) {
                     console.log('Could not calculate sunset retention target for webcam : ' + webcam.displayName);
                     continue;
                 }
 
-                const imageTime = (solarTimes.sunset + solarTimes.lastLight) / 2;
+                const imageTime = (solarTimes.apparentSunset + solarTimes.lastLight) / 2;
 
                 // find the image that is closest to the sunset midpoint and is within -15 and + 5 minutes of sunset
                 const images = await repo.imageRepository.getImagesForTimeRange(webcam, imageTime - (15 * 60 * 1000), (5 * 60 * 1000) + imageTime);
 
                 // Find the image that is closest to imageTime
-                const sunsetImage = images.sort((a, b) => Math.abs(a.timeStamp * 1000 - imageTime) - Math.abs(b.timeStamp * 1000 - imageTime))[0];
+                const sunsetImage = images.sort((a, b) => Math.abs(getImageCaptureTime(a) * 1000 - imageTime) - Math.abs(getImageCaptureTime(b) * 1000 - imageTime))[0];
 
                 if (!sunsetImage) {
                     console.log('No images found in matching sunset window');
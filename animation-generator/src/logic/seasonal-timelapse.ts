@@ -0,0 +1,84 @@
+// Seasonal animations with one frame per day at the same time of day
+import { DateTime } from 'luxon';
+import { Image, WebcamDto } from "../db/schema";
+import { AnimationWindowBoundary } from "../types";
+import { calculateSolarDay, resolveWindowBoundary } from "./animation-profiles";
+
+export const SEASONAL_ANIMATION_TYPE = 'seasonal';
+
+// Longest date range a seasonal animation can cover
+export const MAX_SEASONAL_DAYS = 366;
+
+// Minutes either side of the anchor a days frame can be taken from
+export const SEASONAL_FRAME_TOLERANCE_MINUTES = 30;
+
+/**
+ * Parse the anchor of a seasonal animation, 'solar_noon' or a local clock time (HH:mm in the webcams timezone)
+ * Returns null if the anchor is invalid
+ */
+export function parseSeasonalAnchor(anchor: unknown): AnimationWindowBoundary | null {
+  if (anchor === 'solar_noon') {
+    return { event: 'solar_noon' };
+  }
+
+  if (typeof anchor === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(anchor)) {
+    return { clockTime: anchor };
+  }
+
+  return null;
+}
+
+/**
+ * Label for an anchor used in reference ids and storage keys, solar_noon or the clock time as HHmm
+ */
+export function getSeasonalAnchorLabel(anchor: AnimationWindowBoundary): string {
+  return 'event' in anchor ? anchor.event : anchor.clockTime.replace(':', '');
+}
+
+/**
+ * Get the anchor time on each local day from the start date to the end date (YYYY-MM-DD, inclusive) in the webcams timezone
+ * Days the anchor does not happen on, such as solar noon during the polar night, are skipped
+ */
+export function getSeasonalAnchorTimes(
+  webcam: WebcamDto,
+  startDate: string,
+  endDate: string,
+  anchor: AnimationWindowBoundary
+): { dateString: string, time: number }[] {
+  const timezone = webcam.timezone ?? '';
+  const lastDay = DateTime.fromISO(endDate, { zone: timezone }).startOf('day');
+  const anchorTimes: { dateString: string, time: number }[] = [];
+
+  for (let day = DateTime.fromISO(startDate, { zone: timezone }).startOf('day'); day <= lastDay; day = day.plus({ days: 1 })) {
+    const dateString = day.toFormat('yyyy-MM-dd');
+
+    // Clock time anchors do not need the solar events, SunCalc uses the solar day nearest the time so use local noon
+    const solarDay = 'event' in anchor ? calculateSolarDay(webcam, dateString, day.plus({ hours: 12 }).toMillis()) : null;
+    const time = resolveWindowBoundary(anchor, solarDay, dateString, timezone);
+
+    if (!isNaN(time)) {
+      anchorTimes.push({ dateString, time });
+    }
+  }
+
+  return anchorTimes;
+}
+
+/**
+ * Pick the frame for a day from the images around its anchor time
+ * Images kept by the SolarNoon retention policy are preferred for solar noon anchors, as they outlive the other
+ * images from the day, otherwise the image closest to the anchor is used
+ */
+export function selectSeasonalFrame(images: Image[], anchorTime: number, anchor: AnimationWindowBoundary): Image | null {
+  const distance = (image: Image) => Math.abs((image.sourceTimeStamp ?? image.timeStamp) * 1000 - anchorTime);
+  const byDistance = [...images].sort((a, b) => distance(a) - distance(b));
+
+  if ('event' in anchor && anchor.event === 'solar_noon') {
+    const retained = byDistance.find(image => image.retentionPolicy?.includes('SolarNoon'));
+    if (retained) {
+      return retained;
+    }
+  }
+
+  return byDistance[0] ?? null;
+}
@@ -1,6 +1,8 @@
 // Solar position calculations for sunrise, sunset, and twilight times
 import * as SunCalc from 'suncalc';
 import { toDate } from './timestamp';
+import { WebcamDto } from '../db/schema';
+import { HorizonPoint, PolarCondition, TwilightType } from '../types';
 
 /**
  * Solar times interface defining all calculated solar events
@@ -9,11 +11,64 @@ import { toDate } from './timestamp';
 export interface SolarTimes {
   sunrise: number;
   sunset: number;
-  firstLight: number;      // Astronomical dawn (-18°)
-  lastLight: number;       // Astronomical dusk (-18°)
+  firstLight: number;      // Dawn for the light window, nautical dawn (-12°) by default
+  lastLight: number;       // Dusk for the light window, nautical dusk (-12°) by default
   dayLength: number;       // Hours of daylight
+  apparentSunrise: number; // When the sun clears the horizon seen by the camera (see SolarObserver)
+  apparentSunset: number;  // When the sun drops behind the horizon seen by the camera
+  goldenHourEnd: number;   // Morning golden hour ends when the sun reaches 6° above the horizon
+  goldenHourStart: number; // Evening golden hour starts when the sun drops to 6° above the horizon
+  civilDusk: number;       // Evening blue hour ends when the sun drops to 6° below the horizon
 }
 
+/**
+ * Where a camera sees the sun from, used for the apparent sunrise and sunset
+ * - elevationMeters lowers the horizon for cameras high above the surrounding terrain
+ * - horizonProfile is the angle of ridges and other obstructions above the horizon by azimuth
+ */
+export interface SolarObserver {
+  elevationMeters?: number | null;
+  horizonProfile?: HorizonPoint[] | null;
+}
+
+/**
+ * Defines when first and last light are for a webcam, either by twilight type or by an explicit sun elevation
+ * in degrees (negative below the horizon). When neither is set nautical twilight is used and the window is
+ * padded by DEFAULT_LIGHT_WINDOW_PADDING.
+ */
+export interface LightWindow {
+  twilightType?: TwilightType | null;
+  sunElevation?: number | null;
+}
+
+// Fraction of the twilight duration added before first light and after last light when a webcam has not chosen its window
+export const DEFAULT_LIGHT_WINDOW_PADDING = 0.25;
+
+// Sun elevation at the start of each twilight type in degrees
+export const TWILIGHT_ELEVATIONS: Record<TwilightType, number> = {
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+};
+
+// Hours either side of solar noon in the polar night window when the sun does not reach civil twilight
+export const POLAR_NIGHT_WINDOW_HOURS = 2;
+
+// Highest sun altitude in degrees counted as in frame, cameras frame the landscape so a higher sun is above the frame
+export const SUN_IN_FRAME_MAX_ALTITUDE = 20;
+
+// Step used to find when the sun is in a cameras frame
+const SUN_IN_FRAME_STEP_MS = 60 * 1000;
+
+// Precision of the sun elevation crossing search
+const ELEVATION_SEARCH_PRECISION_MS = 1000;
+
+// Step used to find when the sun clears the horizon profile
+const HORIZON_SEARCH_STEP_MS = 60 * 1000;
+
+// Sun altitude at sunrise used by SunCalc, accounts for refraction and the radius of the sun
+const SUNRISE_ALTITUDE = -0.833;
+
 /**
  * Calculate solar times for a given location and date
  * All input timestamps are assumed to be UTC and all returned times are UTC timestamps
@@ -21,7 +76,9 @@ export interface SolarTimes {
 export function calculateSolarTimes(
   latitude: number,
   longitude: number,
-  timestamp: number
+  timestamp: number,
+  lightWindow: LightWindow = {},
+  observer: SolarObserver = {}
 ): SolarTimes {
   // Validate inputs
   if (Math.abs(latitude) > 90) {
@@ -40,8 +97,11 @@ export function calculateSolarTimes(
   // Convert all times to Unix timestamps, handling null values
   const sunrise = times.sunrise ? times.sunrise.getTime() : NaN;
   const sunset = times.sunset ? times.sunset.getTime() : NaN;
-  const firstLight = times.nauticalDawn ? times.nauticalDawn.getTime() : NaN;
-  const lastLight = times.nauticalDusk ? times.nauticalDusk.getTime() : NaN;
+  const goldenHourEnd = times.goldenHourEnd ? times.goldenHourEnd.getTime() : NaN;
+  const goldenHourStart = times.goldenHour ? times.goldenHour.getTime() : NaN;
+  const civilDusk = times.dusk ? times.dusk.getTime() : NaN;
+  const { firstLight, lastLight } = getFirstAndLastLight(times, latitude, longitude, lightWindow);
+  const { apparentSunrise, apparentSunset } = getApparentSunTimes(date, times, latitude, longitude, observer);
 
   // Calculate day length in hours
   const dayLength = (sunrise && sunset) ? (sunset - sunrise) / (1000 * 60 * 60) : 0;
@@ -51,10 +111,263 @@ export function calculateSolarTimes(
     sunset,
     firstLight,
     lastLight,
-    dayLength
+    dayLength,
+    apparentSunrise,
+    apparentSunset,
+    goldenHourEnd,
+    goldenHourStart,
+    civilDusk
+  };
+}
+
+/**
+ * Find first and last light for the light window
+ * Twilight types use the SunCalc dawn and dusk times, an explicit sun elevation is found from the sun position
+ */
+function getFirstAndLastLight(
+  times: SunCalc.GetTimesResult,
+  latitude: number,
+  longitude: number,
+  lightWindow: LightWindow
+): { firstLight: number, lastLight: number } {
+  const toTime = (date: Date | undefined) => date ? date.getTime() : NaN;
+
+  if (lightWindow.sunElevation !== null && lightWindow.sunElevation !== undefined) {
+    const solarNoon = times.solarNoon.getTime();
+    const halfDay = 12 * 60 * 60 * 1000;
+    return {
+      firstLight: findElevationCrossing(latitude, longitude, lightWindow.sunElevation, solarNoon - halfDay, solarNoon),
+      lastLight: findElevationCrossing(latitude, longitude, lightWindow.sunElevation, solarNoon + halfDay, solarNoon),
+    };
+  }
+
+  switch (lightWindow.twilightType) {
+    case 'civil':
+      return { firstLight: toTime(times.dawn), lastLight: toTime(times.dusk) };
+    case 'astronomical':
+      return { firstLight: toTime(times.nightEnd), lastLight: toTime(times.night) };
+    default:
+      return { firstLight: toTime(times.nauticalDawn), lastLight: toTime(times.nauticalDusk) };
+  }
+}
+
+/**
+ * Find when the sun crosses an elevation between a time when it is lowest (nadir) and solar noon
+ * Returns NaN if the sun stays above or below the elevation for the whole period
+ */
+function findElevationCrossing(latitude: number, longitude: number, elevation: number, below: number, above: number): number {
+  const target = elevation * Math.PI / 180;
+  const altitudeAt = (time: number) => SunCalc.getPosition(toDate(time), latitude, longitude).altitude;
+
+  if (altitudeAt(below) >= target || altitudeAt(above) < target) {
+    return NaN;
+  }
+
+  // The altitude only rises between nadir and noon so bisect towards the crossing
+  while (Math.abs(above - below) > ELEVATION_SEARCH_PRECISION_MS) {
+    const middle = (below + above) / 2;
+    if (altitudeAt(middle) < target) {
+      below = middle;
+    } else {
+      above = middle;
+    }
+  }
+
+  return Math.round((below + above) / 2);
+}
+
+/**
+ * Find the apparent sunrise and sunset for a camera
+ * The camera elevation lowers the horizon so the sun rises earlier, then the sun has to clear the horizon profile
+ * at its azimuth. Obstructions below the lowered horizon are ignored.
+ * Returns NaN when the sun does not rise or never clears the horizon profile.
+ */
+function getApparentSunTimes(
+  date: Date,
+  times: SunCalc.GetTimesResult,
+  latitude: number,
+  longitude: number,
+  observer: SolarObserver
+): { apparentSunrise: number, apparentSunset: number } {
+  const elevatedTimes = observer.elevationMeters && observer.elevationMeters > 0
+    ? SunCalc.getTimes(date, latitude, longitude, observer.elevationMeters)
+    : times;
+  const sunrise = elevatedTimes.sunrise.getTime();
+  const sunset = elevatedTimes.sunset.getTime();
+  const profile = observer.horizonProfile;
+
+  if (!profile || profile.length === 0 || isNaN(sunrise) || isNaN(sunset)) {
+    return { apparentSunrise: sunrise, apparentSunset: sunset };
+  }
+
+  const solarNoon = times.solarNoon.getTime();
+  const isSunVisible = (time: number) => {
+    const position = SunCalc.getPosition(toDate(time), latitude, longitude);
+    const horizonElevation = getHorizonElevation(profile, toCompassAzimuth(position.azimuth));
+    return horizonElevation <= 0 || position.altitude * 180 / Math.PI - SUNRISE_ALTITUDE >= horizonElevation;
+  };
+
+  let apparentSunrise = NaN;
+  for (let time = sunrise; time <= solarNoon; time += HORIZON_SEARCH_STEP_MS) {
+    if (isSunVisible(time)) {
+      apparentSunrise = time;
+      break;
+    }
+  }
+
+  let apparentSunset = NaN;
+  for (let time = sunset; time >= solarNoon; time -= HORIZON_SEARCH_STEP_MS) {
+    if (isSunVisible(time)) {
+      apparentSunset = time;
+      break;
+    }
+  }
+
+  return { apparentSunrise, apparentSunset };
+}
+
+/**
+ * Get the angle of the horizon profile above the horizon at an azimuth, interpolating between the profile points
+ * Azimuths are compass bearings in degrees, 0 is north and 90 is east
+ */
+export function getHorizonElevation(profile: HorizonPoint[], azimuth: number): number {
+  if (profile.length === 0) {
+    return 0;
+  }
+
+  const points = [...profile]
+    .map(point => ({ azimuth: ((point.azimuth % 360) + 360) % 360, elevation: point.elevation }))
+    .sort((a, b) => a.azimuth - b.azimuth);
+  const target = ((azimuth % 360) + 360) % 360;
+
+  const afterIndex = points.findIndex(point => point.azimuth >= target);
+  if (afterIndex !== -1 && points[afterIndex].azimuth === target) {
+    return points[afterIndex].elevation;
+  }
+
+  // The profile wraps around north, so the first point follows the last point a full turn later
+  const first = points[0];
+  const last = points[points.length - 1];
+  const before = afterIndex > 0 ? points[afterIndex - 1] : { ...last, azimuth: afterIndex === 0 ? last.azimuth - 360 : last.azimuth };
+  const after = afterIndex === -1 ? { ...first, azimuth: first.azimuth + 360 } : points[afterIndex];
+
+  return before.elevation + (after.elevation - before.elevation) * (target - before.azimuth) / (after.azimuth - before.azimuth);
+}
+
+/**
+ * Convert a SunCalc azimuth (radians from south towards west) to a compass bearing in degrees
+ */
+function toCompassAzimuth(azimuth: number): number {
+  return ((azimuth * 180 / Math.PI + 180) % 360 + 360) % 360;
+}
+
+/**
+ * Direction a camera faces, as a compass heading in degrees (0 is north, 90 is east), and its horizontal field of view
+ */
+export interface CameraFrame {
+  headingDegrees: number;
+  horizontalFovDegrees: number;
+}
+
+/**
+ * Find when the sun is in a cameras frame during the day, between the horizon and SUN_IN_FRAME_MAX_ALTITUDE and
+ * within the horizontal field of view
+ * Returns the windows in time order, or null if the location is invalid
+ * All input timestamps are assumed to be UTC and all returned times are UTC timestamps
+ */
+export function calculateSunInFrameWindows(
+  latLonString: string | null,
+  timestamp: number,
+  frame: CameraFrame
+): { start: number, end: number }[] | null {
+  if (!latLonString) {
+    return null;
+  }
+
+  let latitude: number, longitude: number;
+  try {
+    ({ latitude, longitude } = parseLatLon(latLonString));
+  } catch (error) {
+    console.error('Error calculating sun in frame windows:', error);
+    return null;
+  }
+
+  const solarNoon = SunCalc.getTimes(toDate(timestamp), latitude, longitude).solarNoon.getTime();
+  const halfDay = 12 * 60 * 60 * 1000;
+  const isSunInFrame = (time: number) => {
+    const position = SunCalc.getPosition(toDate(time), latitude, longitude);
+    const altitude = position.altitude * 180 / Math.PI;
+    const offset = Math.abs(((toCompassAzimuth(position.azimuth) - frame.headingDegrees) % 360 + 540) % 360 - 180);
+    return altitude >= SUNRISE_ALTITUDE && altitude <= SUN_IN_FRAME_MAX_ALTITUDE && offset <= frame.horizontalFovDegrees / 2;
+  };
+
+  const windows: { start: number, end: number }[] = [];
+  let windowStart: number | null = null;
+  for (let time = solarNoon - halfDay; time <= solarNoon + halfDay; time += SUN_IN_FRAME_STEP_MS) {
+    const inFrame = isSunInFrame(time);
+    if (inFrame && windowStart === null) {
+      windowStart = time;
+    } else if (!inFrame && windowStart !== null) {
+      windows.push({ start: windowStart, end: time - SUN_IN_FRAME_STEP_MS });
+      windowStart = null;
+    }
+  }
+
+  if (windowStart !== null) {
+    windows.push({ start: windowStart, end: solarNoon + halfDay });
+  }
+
+  return windows;
+}
+
+/**
+ * Get the frame of a webcam, null unless both its heading and field of view are set
+ */
+export function getWebcamFrame(webcam: WebcamDto): CameraFrame | null {
+  if (webcam.headingDegrees === null || webcam.headingDegrees === undefined || !webcam.horizontalFovDegrees) {
+    return null;
+  }
+
+  return { headingDegrees: webcam.headingDegrees, horizontalFovDegrees: webcam.horizontalFovDegrees };
+}
+
+/**
+ * Get the observer position a webcam has set
+ */
+export function getWebcamObserver(webcam: WebcamDto): SolarObserver {
+  return { elevationMeters: webcam.elevationMeters, horizonProfile: webcam.horizonProfile };
+}
+
+/**
+ * Get the light window a webcam has chosen
+ */
+export function getWebcamLightWindow(webcam: WebcamDto): LightWindow {
+  return { twilightType: webcam.twilightType, sunElevation: webcam.lightWindowSunElevation };
+}
+
+/**
+ * Get the start and end of the light window for a day
+ * Windows chosen by the webcam run from first to last light, the default window is padded by DEFAULT_LIGHT_WINDOW_PADDING
+ * of the twilight duration on each side
+ */
+export function getLightWindowBounds(solarTimes: SolarTimes, lightWindow: LightWindow = {}): { lightStart: number, lightEnd: number } {
+  if (isLightWindowConfigured(lightWindow)) {
+    return { lightStart: solarTimes.firstLight, lightEnd: solarTimes.lastLight };
+  }
+
+  const sunriseDuration = solarTimes.sunrise - solarTimes.firstLight;
+  const sunsetDuration = solarTimes.lastLight - solarTimes.sunset;
+
+  return {
+    lightStart: solarTimes.firstLight - (DEFAULT_LIGHT_WINDOW_PADDING * sunriseDuration),
+    lightEnd: solarTimes.lastLight + (DEFAULT_LIGHT_WINDOW_PADDING * sunsetDuration),
   };
 }
 
+function isLightWindowConfigured(lightWindow: LightWindow): boolean {
+  return !!lightWindow.twilightType || (lightWindow.sunElevation !== null && lightWindow.sunElevation !== undefined);
+}
+
 /**
  * Parse latitude and longitude from various string formats
  */
@@ -86,7 +399,9 @@ export function parseLatLon(latLonString: string): { latitude: number; longitude
  */
 export function calculateWebcamSolarTimes(
   latLonString: string | null,
-  timestamp: number
+  timestamp: number,
+  lightWindow: LightWindow = {},
+  observer: SolarObserver = {}
 ): SolarTimes | null {
   if (!latLonString) {
     return null;
@@ -94,7 +409,7 @@ export function calculateWebcamSolarTimes(
 
   try {
     const { latitude, longitude } = parseLatLon(latLonString);
-    return calculateSolarTimes(latitude, longitude, timestamp);
+    return calculateSolarTimes(latitude, longitude, timestamp, lightWindow, observer);
   } catch (error) {
     console.error('Error calculating solar times:', error);
     return null;
@@ -102,24 +417,153 @@ export function calculateWebcamSolarTimes(
 }
 
 /**
- * Check if it's currently daylight at a given location
+ * Check if it's currently daylight at a given location, within the light window
  * All input timestamps are assumed to be UTC
  */
 export function isDaylight(
   latLonString: string | null,
-  currentTimestamp: number
+  currentTimestamp: number,
+  lightWindow: LightWindow = {}
 ): boolean {
-  const solarTimes = calculateWebcamSolarTimes(latLonString, currentTimestamp);
+  const solarTimes = calculateWebcamSolarTimes(latLonString, currentTimestamp, lightWindow);
 
   if (!solarTimes || isNaN(solarTimes.firstLight) || isNaN(solarTimes.lastLight)) {
     return true; // Default to daylight if calculation fails
   }
 
-	const sunriseDuration = solarTimes.sunrise - solarTimes.firstLight;
-	const sunsetDuration = solarTimes.lastLight - solarTimes.sunset;
-
-	const lightStart = solarTimes.firstLight - (0.25 * sunriseDuration);
-	const lightEnd = solarTimes.lastLight + (0.25 * sunsetDuration);
+  const { lightStart, lightEnd } = getLightWindowBounds(solarTimes, lightWindow);
 
   return currentTimestamp >= lightStart && currentTimestamp <= lightEnd;
 }
+
+/**
+ * Check if the sun stays up or down for the whole day at a location, as it does at high latitudes around the solstices
+ * Returns null when the sun rises and sets or the location is invalid
+ * All input timestamps are assumed to be UTC
+ */
+export function getPolarCondition(latLonString: string | null, timestamp: number): PolarCondition | null {
+  const position = getNoonAndNadirAltitudes(latLonString, timestamp);
+  if (!position) {
+    return null;
+  }
+
+  if (position.nadirAltitude > SUNRISE_ALTITUDE) {
+    return 'midnight_sun';
+  }
+
+  if (position.noonAltitude < SUNRISE_ALTITUDE) {
+    return 'polar_night';
+  }
+
+  return null;
+}
+
+/**
+ * Calculate the window used for a polar night day, when the sun does not rise
+ * The window is civil twilight around solar noon, or POLAR_NIGHT_WINDOW_HOURS either side of solar noon when
+ * the sun does not reach civil twilight either
+ * All input timestamps are assumed to be UTC and all returned times are UTC timestamps
+ */
+export function calculatePolarNightWindow(latLonString: string | null, timestamp: number): { start: number, end: number } | null {
+  if (!latLonString) {
+    return null;
+  }
+
+  try {
+    const { latitude, longitude } = parseLatLon(latLonString);
+    const times = SunCalc.getTimes(toDate(timestamp), latitude, longitude);
+    const civilDawn = times.dawn.getTime();
+    const civilDusk = times.dusk.getTime();
+
+    if (!isNaN(civilDawn) && !isNaN(civilDusk)) {
+      return { start: civilDawn, end: civilDusk };
+    }
+
+    const solarNoon = times.solarNoon.getTime();
+    const halfWindow = POLAR_NIGHT_WINDOW_HOURS * 60 * 60 * 1000;
+    return { start: solarNoon - halfWindow, end: solarNoon + halfWindow };
+  } catch (error) {
+    console.error('Error calculating polar night window:', error);
+    return null;
+  }
+}
+
+function getNoonAndNadirAltitudes(latLonString: string | null, timestamp: number): { noonAltitude: number, nadirAltitude: number } | null {
+  if (!latLonString) {
+    return null;
+  }
+
+  try {
+    const { latitude, longitude } = parseLatLon(latLonString);
+    const times = SunCalc.getTimes(toDate(timestamp), latitude, longitude);
+    const altitudeAt = (date: Date) => SunCalc.getPosition(date, latitude, longitude).altitude * 180 / Math.PI;
+
+    return { noonAltitude: altitudeAt(times.solarNoon), nadirAltitude: altitudeAt(times.nadir) };
+  } catch (error) {
+    console.error('Error calculating sun altitudes:', error);
+    return null;
+  }
+}
+
+/**
+ * Moon times used for moonrise animations and night mode captures
+ */
+export interface MoonTimes {
+  moonrise: number;     // First moonrise in the day from the timestamp, NaN if the moon does not rise
+  moonset: number;      // First moonset within a day of the moonrise, NaN if the moon does not rise or set
+  illumination: number; // Illuminated fraction of the moon at moonrise, or at the timestamp when it does not rise
+}
+
+/**
+ * Calculate the moonrise and moonset in the day starting at a timestamp, and how full the moon is
+ * All input timestamps are assumed to be UTC and all returned times are UTC timestamps
+ */
+export function calculateMoonTimes(latLonString: string | null, timestamp: number): MoonTimes | null {
+  if (!latLonString) {
+    return null;
+  }
+
+  try {
+    const { latitude, longitude } = parseLatLon(latLonString);
+    const day = 24 * 60 * 60 * 1000;
+
+    // SunCalc finds the moon times for a UTC day, so collect them for each UTC day the moonrise and moonset can fall on
+    const rises: number[] = [];
+    const sets: number[] = [];
+    for (let dayStart = Math.floor(timestamp / day) * day; dayStart < timestamp + 2 * day; dayStart += day) {
+      const times = SunCalc.getMoonTimes(toDate(dayStart), latitude, longitude, true);
+      if (times.rise) rises.push(times.rise.getTime());
+      if (times.set) sets.push(times.set.getTime());
+    }
+
+    const moonrise = rises.find(rise => rise >= timestamp && rise < timestamp + day) ?? NaN;
+    const moonset = isNaN(moonrise) ? NaN : sets.find(set => set > moonrise && set < moonrise + day) ?? NaN;
+    const illumination = SunCalc.getMoonIllumination(toDate(isNaN(moonrise) ? timestamp : moonrise)).fraction;
+
+    return { moonrise, moonset, illumination };
+  } catch (error) {
+    console.error('Error calculating moon times:', error);
+    return null;
+  }
+}
+
+/**
+ * Check if the moon is above the horizon and at least the given fraction illuminated
+ * All input timestamps are assumed to be UTC
+ */
+export function isMoonlit(latLonString: string | null, timestamp: number, minIllumination: number): boolean {
+  if (!latLonString) {
+    return false;
+  }
+
+  try {
+    const { latitude, longitude } = parseLatLon(latLonString);
+    const date = toDate(timestamp);
+
+    return SunCalc.getMoonPosition(date, latitude, longitude).altitude > 0
+      && SunCalc.getMoonIllumination(date).fraction >= minIllumination;
+  } catch (error) {
+    console.error('Error calculating moon position:', error);
+    return false;
+  }
+}
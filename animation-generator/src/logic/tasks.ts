@@ -1,36 +1,95 @@
 import { WebcamDto } from "../db/schema";
-import { calculateWebcamSolarTimes, isDaylight } from "./solar-calculations";
+import { describeCaptureCadence, getCaptureCadence } from "./capture-cadence";
+import { calculateWebcamSolarTimes, getWebcamLightWindow, isDaylight, isMoonlit } from "./solar-calculations";
 import { diffInMinutes, now } from "./timestamp";
+import { checkCircuitBreaker } from "./webcam-health";
+
+// Webcams are captured in fixed minute slots so allow a capture slightly before the full interval has passed
+export const CAPTURE_SLOT_TOLERANCE_MINUTES = 0.5;
 
 /**
  * This function is used to determine if image from the webcam should be captured.
  * The webcam image should only be updated when the following conditions are met.
  * - The webcam is enabled
- * - The current time is > the last active time + webcam.interval_minutes
- * - The current time is between firstLight and lastLight given the webcams lat and log
+ * - The webcam is not backing off or suspended after consecutive failures (suspended webcams are still probed for recovery,
+ *   but only within the light window below)
+ * - The current time is > the last active time + the webcams capture interval, less CAPTURE_SLOT_TOLERANCE_MINUTES so
+ *   cron jitter does not make a webcam miss its next capture slot. The interval comes from the webcams cadence
+ *   profile, which captures more often around twilight and less often around solar noon
+ * - The current time is within the webcams light window (see getLightWindowBounds) given the webcams lat and log,
+ *   or the webcam is in night mode and the moon is up and at least webcams.night_mode_min_illumination illuminated
  */
 export function shouldCaptureImage(webcam: WebcamDto): { shouldCapture: boolean, reason: string} {
+  const currentTime = now();
+
+  const circuitBreaker = checkCircuitBreaker(webcam, currentTime);
+  if (!circuitBreaker.allowed) {
+    return {shouldCapture: false, reason: circuitBreaker.reason};
+  }
+
+  // Recovery probes skip the interval check but a probe in the dark would only fetch an image that is not kept
+  if (circuitBreaker.isProbe) {
+    return checkLightWindow(webcam, currentTime, circuitBreaker.reason, null);
+  }
+
   if (!webcam.lastActiveAt) {
     return {shouldCapture: true, reason: 'first capture'}; // First capture
   }
 
-  const currentTime = now();
   const lastActiveTimestamp = new Date(webcam.lastActiveAt).getTime();
   const minutesSinceLastCapture = diffInMinutes(currentTime, lastActiveTimestamp);
 
-  if (minutesSinceLastCapture <= (webcam.intervalMinutes || 1)) {
-    return {shouldCapture: false, reason: 'web cam interval'};
+  const cadence = getCaptureCadence(webcam, currentTime);
+  const cadenceReason = describeCaptureCadence(cadence);
+
+  if (minutesSinceLastCapture <= cadence.intervalMinutes - CAPTURE_SLOT_TOLERANCE_MINUTES) {
+    return {shouldCapture: false, reason: `web cam interval (${cadenceReason})`};
   }
 
+  return checkLightWindow(webcam, currentTime, 'time expired', cadenceReason);
+}
+
+/**
+ * Check if the current time is within the webcams light window, or moonlit for webcams in night mode
+ * Webcams without a location or solar times are always captured
+ */
+function checkLightWindow(webcam: WebcamDto, currentTime: number, reason: string, detail: string | null): { shouldCapture: boolean, reason: string} {
+  const describe = (condition: string) => `${reason}${condition}${detail ? ` (${detail})` : ''}`;
+
   if (!webcam.latLon) {
-    return {shouldCapture: true, reason: 'time expired'};
+    return {shouldCapture: true, reason: describe('')};
   }
 
-  const solarTimes = calculateWebcamSolarTimes(webcam.latLon, currentTime);
+  const lightWindow = getWebcamLightWindow(webcam);
+  const solarTimes = calculateWebcamSolarTimes(webcam.latLon, currentTime, lightWindow);
   if (!solarTimes) {
-    return {shouldCapture: true, reason: 'time expired and no location data'};
+    return {shouldCapture: true, reason: describe(' and no location data')};
+  }
+
+  const shouldCapture = isDaylight(webcam.latLon, currentTime, lightWindow);
+  if (!shouldCapture && isNightModeMoonlit(webcam, currentTime)) {
+    return {shouldCapture: true, reason: describe(' and moon is up')};
   }
 
-  const shouldCapture = isDaylight(webcam.latLon, currentTime);
-  return {shouldCapture, reason: shouldCapture ? 'time expired and sun is up' : 'sun below horizon'};
+  return {shouldCapture, reason: shouldCapture ? describe(' and sun is up') : 'sun below horizon'};
+}
+
+/**
+ * Check if a webcam captured an image at the given time only because of night mode, that is outside its light
+ * window while the moon was up and at least webcams.night_mode_min_illumination illuminated
+ */
+export function isNightModeCapture(webcam: WebcamDto, timestamp: number): boolean {
+  if (!webcam.latLon || !isNightModeMoonlit(webcam, timestamp)) {
+    return false;
+  }
+
+  return !isDaylight(webcam.latLon, timestamp, getWebcamLightWindow(webcam));
+}
+
+/**
+ * Check if a webcam is in night mode and the moon is up and bright enough for it
+ */
+function isNightModeMoonlit(webcam: WebcamDto, timestamp: number): boolean {
+  return webcam.nightModeMinIllumination !== null && webcam.nightModeMinIllumination !== undefined
+    && isMoonlit(webcam.latLon, timestamp, webcam.nightModeMinIllumination);
 }
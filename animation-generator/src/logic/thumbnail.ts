@@ -0,0 +1,39 @@
+// Thumbnail generation for captured images
+import { DecodedImage, encodeJpeg, resizeImage } from "./image";
+
+/**
+ * Thumbnail settings for a deployment
+ */
+export interface ThumbnailOptions {
+  enabled: boolean;
+  maxWidth: number;   // Thumbnails are downscaled to this width, keeping the aspect ratio
+  quality: number;    // JPEG quality (1 - 100)
+}
+
+export const DEFAULT_THUMBNAIL_OPTIONS: ThumbnailOptions = {
+  enabled: true,
+  maxWidth: 320,
+  quality: 70,
+};
+
+/**
+ * Read the thumbnail options from the worker environment, falling back to the defaults
+ * A THUMBNAIL_MAX_WIDTH of 0 disables thumbnails
+ */
+export function getThumbnailOptions(env: Env): ThumbnailOptions {
+  const maxWidth = parseInt(env.THUMBNAIL_MAX_WIDTH ?? '', 10);
+  const quality = parseInt(env.THUMBNAIL_QUALITY ?? '', 10);
+
+  return {
+    enabled: maxWidth !== 0,
+    maxWidth: isNaN(maxWidth) || maxWidth <= 0 ? DEFAULT_THUMBNAIL_OPTIONS.maxWidth : maxWidth,
+    quality: isNaN(quality) || quality < 1 || quality > 100 ? DEFAULT_THUMBNAIL_OPTIONS.quality : quality,
+  };
+}
+
+/**
+ * Create a JPEG thumbnail of a decoded image
+ */
+export function createThumbnail(image: DecodedImage, options: ThumbnailOptions): Uint8Array<ArrayBuffer> {
+  return encodeJpeg(resizeImage(image, options.maxWidth), options.quality);
+}
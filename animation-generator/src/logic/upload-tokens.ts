@@ -0,0 +1,52 @@
+// Upload tokens for webcams that push their images
+import { parseSourceTimestamp } from "./webcam-sources";
+
+// Prefix of issued tokens so they can be recognised in logs and secret scanners
+export const UPLOAD_TOKEN_PREFIX = 'wcu_';
+
+// Largest image body accepted from a camera
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Generate a new random upload token
+ * Only the hash of the token is stored, the token itself is shown once when it is issued
+ */
+export function generateUploadToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return UPLOAD_TOKEN_PREFIX + toHex(bytes);
+}
+
+/**
+ * Calculate the SHA-256 hash of an upload token as stored in the database
+ */
+export async function hashUploadToken(token: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(hashBuffer));
+}
+
+/**
+ * Read the token from an Authorization header ("Bearer <token>"), returns null if there is no bearer token
+ */
+export function parseBearerToken(authorization: string | undefined | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse the capture time sent with an uploaded image
+ * Unix timestamps in seconds or milliseconds and ISO 8601 dates are accepted, returns null if the value is missing or invalid
+ */
+export function parseUploadTimestamp(value: string | undefined | null): number | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return parseSourceTimestamp(/^\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,125 @@
+// Health tracking for webcam feeds
+import { WebcamDto } from "../db/schema";
+import { WebcamHealthState } from "../types";
+import { getWebcamLightWindow, isDaylight } from "./solar-calculations";
+import { addMinutes, diffInMinutes } from "./timestamp";
+
+// Backoff after the first failure, doubled for each consecutive failure
+export const BASE_BACKOFF_MINUTES = 1;
+
+// Longest backoff between attempts before a webcam is suspended
+export const MAX_BACKOFF_MINUTES = 60;
+
+// Time between recovery probes for a suspended webcam
+export const RECOVERY_PROBE_INTERVAL_MINUTES = 6 * 60;
+
+/**
+ * Result of checking how long a webcam feed has gone without a new image
+ */
+export interface FeedStaleness {
+  unchangedDaylightMinutes: number;
+  isStale: boolean;
+}
+
+/**
+ * This function is used to determine if a webcam feed has stopped updating.
+ * It should be called each time a capture returns the same image as the last one saved.
+ * - Only time that passes during daylight counts towards the unchanged time
+ * - The time added by a single check is capped at twice the capture interval so gaps
+ *   where the webcam was not checked (i.e. overnight) are not counted
+ * - The feed is stale once the unchanged time is > the webcams stale threshold
+ */
+export function evaluateFeedStaleness(webcam: WebcamDto, currentTime: number): FeedStaleness {
+  const previousMinutes = webcam.unchangedDaylightMinutes ?? 0;
+
+  let elapsedMinutes = 0;
+  if (webcam.unchangedCheckedAt && isDaylight(webcam.latLon, currentTime, getWebcamLightWindow(webcam))) {
+    const lastCheckedTimestamp = new Date(webcam.unchangedCheckedAt).getTime();
+    const maxStepMinutes = 2 * Math.max(webcam.intervalMinutes || 1, 1);
+    elapsedMinutes = isNaN(lastCheckedTimestamp) ? 0 : Math.min(diffInMinutes(currentTime, lastCheckedTimestamp), maxStepMinutes);
+  }
+
+  const unchangedDaylightMinutes = Math.round(previousMinutes + elapsedMinutes);
+  const isStale = isFeedStale({ ...webcam, unchangedDaylightMinutes });
+
+  return { unchangedDaylightMinutes, isStale };
+}
+
+/**
+ * Check if a webcams feed was stale as of its last unchanged check
+ * Staleness comes from the unchanged daylight minutes rather than the health state, as circuit breaker
+ * failures and recoveries overwrite the health state while the feed can still be stale
+ */
+export function isFeedStale(webcam: WebcamDto): boolean {
+  return (webcam.unchangedDaylightMinutes ?? 0) > (webcam.staleThresholdMinutes ?? 60);
+}
+
+/**
+ * Circuit breaker state for a webcam after a failed capture
+ */
+export interface CircuitBreakerState {
+  consecutiveFailures: number;
+  healthState: WebcamHealthState;
+  nextAttemptAt: string;
+}
+
+/**
+ * Calculate the exponential backoff before the next attempt after a number of consecutive failures
+ */
+export function calculateBackoffMinutes(consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) {
+    return 0;
+  }
+
+  return Math.min(BASE_BACKOFF_MINUTES * Math.pow(2, consecutiveFailures - 1), MAX_BACKOFF_MINUTES);
+}
+
+/**
+ * This function is used to calculate the circuit breaker state of a webcam after a failed capture.
+ * - Each consecutive failure doubles the time until the next attempt, up to MAX_BACKOFF_MINUTES
+ * - Once the consecutive failures reach the webcams suspend threshold the webcam is suspended and
+ *   only probed every RECOVERY_PROBE_INTERVAL_MINUTES
+ */
+export function recordCaptureFailure(webcam: WebcamDto, currentTime: number): CircuitBreakerState {
+  const consecutiveFailures = (webcam.consecutiveFailures ?? 0) + 1;
+
+  if (consecutiveFailures >= (webcam.suspendAfterFailures ?? 10)) {
+    return {
+      consecutiveFailures,
+      healthState: 'suspended',
+      nextAttemptAt: new Date(addMinutes(currentTime, RECOVERY_PROBE_INTERVAL_MINUTES)).toISOString(),
+    };
+  }
+
+  return {
+    consecutiveFailures,
+    healthState: 'backoff',
+    nextAttemptAt: new Date(addMinutes(currentTime, calculateBackoffMinutes(consecutiveFailures))).toISOString(),
+  };
+}
+
+/**
+ * Check if the circuit breaker allows a webcam to be captured
+ * Returns the reason the webcam is being held back or probed
+ */
+export function checkCircuitBreaker(webcam: WebcamDto, currentTime: number): { allowed: boolean, isProbe: boolean, reason: string } {
+  if (!webcam.consecutiveFailures || !webcam.nextAttemptAt) {
+    return { allowed: true, isProbe: false, reason: 'no recent failures' };
+  }
+
+  const nextAttemptTimestamp = new Date(webcam.nextAttemptAt).getTime();
+  const isSuspended = webcam.healthState === 'suspended';
+
+  if (currentTime < nextAttemptTimestamp) {
+    const reason = isSuspended
+      ? `suspended after ${webcam.consecutiveFailures} consecutive failures, next recovery probe at ${webcam.nextAttemptAt}`
+      : `backing off after ${webcam.consecutiveFailures} consecutive failures until ${webcam.nextAttemptAt}`;
+    return { allowed: false, isProbe: false, reason };
+  }
+
+  return {
+    allowed: true,
+    isProbe: isSuspended,
+    reason: isSuspended ? 'recovery probe for suspended webcam' : `retrying after ${webcam.consecutiveFailures} consecutive failures`,
+  };
+}
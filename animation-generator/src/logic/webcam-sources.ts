@@ -0,0 +1,312 @@
+// Adapters that resolve the current image for a webcam from its source
+import { DateTime } from "luxon";
+import { WebcamDto } from "../db/schema";
+import { SourceImage, WebcamSourceAdapter, WebcamSourceType } from "../types";
+import { getCacheValidators, getConditionalRequestHeaders } from "./webcam";
+import { createResponseError, fetchWithTimeout, readBodyWithLimit, validateImageContent, WebcamFetchError } from "./fetch-safeguards";
+import { buildRequestHeaders, hasRequestCredentials, RequestSecrets } from "./request-profile";
+import { getUrlHost, HostLimiter } from "./capture-planner";
+
+// Defaults for url templates that do not set a step or lookback
+export const DEFAULT_TEMPLATE_STEP_MINUTES = 1;
+export const DEFAULT_TEMPLATE_LOOKBACK_STEPS = 2;
+
+// Most redirects followed by hand for webcams whose request profile sends credentials
+export const MAX_CREDENTIAL_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// The webcam url is the image url
+export const DirectUrlSource: WebcamSourceAdapter = {
+  type: 'direct_url',
+
+  resolve: async (webcam: WebcamDto, _currentTime: number, secrets: RequestSecrets = {}, hostLimiter: HostLimiter | null = null) => {
+    return requestSourceImage(webcam.url, webcam, secrets, hostLimiter, (res) => readSourceImage(webcam.url, res, null, webcam));
+  }
+};
+
+// The image url is built from a template with date tokens for the current time in the webcams timezone
+// When the latest image has not been published yet the earlier steps are tried
+export const UrlTemplateSource: WebcamSourceAdapter = {
+  type: 'url_template',
+
+  resolve: async (webcam: WebcamDto, currentTime: number, secrets: RequestSecrets = {}, hostLimiter: HostLimiter | null = null) => {
+    const template = webcam.sourceConfig?.urlTemplate;
+    if (!template) {
+      throw new Error('url_template source requires sourceConfig.urlTemplate');
+    }
+
+    const stepMs = Math.max(webcam.sourceConfig?.stepMinutes ?? DEFAULT_TEMPLATE_STEP_MINUTES, 1) * 60 * 1000;
+    const lookbackSteps = Math.max(webcam.sourceConfig?.lookbackSteps ?? DEFAULT_TEMPLATE_LOOKBACK_STEPS, 0);
+    const latestStep = Math.floor(currentTime / stepMs) * stepMs;
+
+    for (let step = 0; step <= lookbackSteps; step++) {
+      const stepTime = latestStep - step * stepMs;
+      const imageUrl = expandUrlTemplate(template, stepTime, webcam.timezone || 'UTC');
+
+      const image = await requestSourceImage(imageUrl, webcam, secrets, hostLimiter, async (res) => {
+        if (res.status === 404 && step < lookbackSteps) {
+          await res.body?.cancel();
+          return null;
+        }
+
+        return readSourceImage(imageUrl, res, stepTime, webcam);
+      });
+
+      if (image) {
+        return image;
+      }
+    }
+
+    throw new Error('url_template source has no steps to try');
+  }
+};
+
+// The webcam url returns JSON and the image url is found with a JSON pointer into the response
+export const JsonPointerSource: WebcamSourceAdapter = {
+  type: 'json_pointer',
+
+  resolve: async (webcam: WebcamDto, _currentTime: number, secrets: RequestSecrets = {}, hostLimiter: HostLimiter | null = null) => {
+    const imagePointer = webcam.sourceConfig?.imagePointer;
+    if (imagePointer === undefined) {
+      throw new Error('json_pointer source requires sourceConfig.imagePointer');
+    }
+
+    const document: unknown = await fetchSource(webcam.url, { Accept: 'application/json' }, webcam, secrets, hostLimiter, async (res) => {
+      if (!res.ok) {
+        await res.body?.cancel();
+        throw createResponseError(res, `Source fetch failed: ${res.status} ${res.statusText}`);
+      }
+
+      return JSON.parse(new TextDecoder().decode(await readBodyWithLimit(res, webcam)));
+    });
+
+    const imageUrl = resolveJsonPointer(document, imagePointer);
+    if (typeof imageUrl !== 'string' || !imageUrl) {
+      throw new Error(`JSON pointer ${imagePointer} did not resolve to an image url`);
+    }
+
+    const timestampPointer = webcam.sourceConfig?.timestampPointer;
+    const sourceTimestamp = timestampPointer !== undefined ? parseSourceTimestamp(resolveJsonPointer(document, timestampPointer)) : null;
+
+    const absoluteImageUrl = new URL(imageUrl, webcam.url).toString();
+    return requestSourceImage(absoluteImageUrl, webcam, secrets, hostLimiter, (res) => readSourceImage(absoluteImageUrl, res, sourceTimestamp, webcam));
+  }
+};
+
+// Push webcams upload their own images so they have no adapter
+const SOURCE_ADAPTERS: Partial<Record<WebcamSourceType, WebcamSourceAdapter>> = {
+  direct_url: DirectUrlSource,
+  url_template: UrlTemplateSource,
+  json_pointer: JsonPointerSource,
+};
+
+/**
+ * A fetch attempt against one of a webcams sources
+ */
+export interface SourceAttempt {
+  sourceUrl: string;    // webcams.url for the primary source or the fallback url
+  isPrimary: boolean;
+  error: unknown | null;
+}
+
+/**
+ * The image resolved for a webcam and every source tried to get it
+ * The image is null when every source failed
+ */
+export interface ResolvedSourceImage {
+  image: SourceImage | null;
+  sourceUrl: string | null;
+  isPrimary: boolean;
+  attempts: SourceAttempt[];
+}
+
+/**
+ * Resolve the current image for a webcam from its primary source, trying its fallback urls in order when it fails
+ * Fallback urls are fetched directly with the webcams request profile but without conditional headers, as the
+ * cache validators belong to the primary source, and without credentials unless they share the webcam urls origin
+ * With a host limiter every fetch waits for the host of the url it requests to allow it
+ */
+export async function resolveSourceImage(webcam: WebcamDto, currentTime: number, secrets: RequestSecrets = {}, hostLimiter: HostLimiter | null = null): Promise<ResolvedSourceImage> {
+  const attempts: SourceAttempt[] = [];
+
+  try {
+    const image = await getSourceAdapter(webcam).resolve(webcam, currentTime, secrets, hostLimiter);
+    attempts.push({ sourceUrl: webcam.url, isPrimary: true, error: null });
+    return { image, sourceUrl: webcam.url, isPrimary: true, attempts };
+  } catch (error) {
+    attempts.push({ sourceUrl: webcam.url, isPrimary: true, error });
+  }
+
+  for (const fallbackUrl of webcam.fallbackUrls ?? []) {
+    try {
+      const image = await fetchSource(fallbackUrl, {}, webcam, secrets, hostLimiter, (res) => readSourceImage(fallbackUrl, res, null, webcam));
+      attempts.push({ sourceUrl: fallbackUrl, isPrimary: false, error: null });
+      return { image, sourceUrl: fallbackUrl, isPrimary: false, attempts };
+    } catch (error) {
+      attempts.push({ sourceUrl: fallbackUrl, isPrimary: false, error });
+    }
+  }
+
+  return { image: null, sourceUrl: null, isPrimary: false, attempts };
+}
+
+/**
+ * Get the source adapter for a webcam, webcams without a source type use the direct url adapter
+ */
+export function getSourceAdapter(webcam: WebcamDto): WebcamSourceAdapter {
+  const adapter = SOURCE_ADAPTERS[webcam.sourceType ?? 'direct_url'];
+  if (!adapter) {
+    throw new Error(`Unknown webcam source type: ${webcam.sourceType}`);
+  }
+
+  return adapter;
+}
+
+/**
+ * Replace the date tokens in a url template with the time in the given timezone
+ * Tokens are luxon format strings in braces (i.e. {yyyy-MM-dd} or {HHmm}), {unix} is replaced with the unix timestamp in seconds
+ */
+export function expandUrlTemplate(template: string, timestamp: number, timezone: string): string {
+  const dateTime = DateTime.fromMillis(timestamp, { zone: timezone });
+
+  return template.replace(/\{([^}]+)\}/g, (_match, token: string) => {
+    if (token === 'unix') {
+      return Math.floor(timestamp / 1000).toString();
+    }
+
+    return dateTime.toFormat(token);
+  });
+}
+
+/**
+ * Resolve an RFC 6901 JSON pointer against a document, returns undefined when the pointer does not match
+ */
+export function resolveJsonPointer(document: unknown, pointer: string): unknown {
+  if (pointer === '') {
+    return document;
+  }
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+
+  let value: unknown = document;
+  for (const part of pointer.substring(1).split('/')) {
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      return undefined;
+    }
+    value = Array.isArray(value) ? (value as unknown[])[Number(key)] : (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+/**
+ * Parse a timestamp from a source, numbers are treated as unix seconds or milliseconds and strings as dates
+ */
+export function parseSourceTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' && isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+
+  if (typeof value === 'string') {
+    const timestamp = new Date(value).getTime();
+    return isNaN(timestamp) ? null : timestamp;
+  }
+
+  return null;
+}
+
+/**
+ * Request an image for a webcam with the headers from its request profile, sending the validators from the last
+ * response so the origin can answer with a 304
+ */
+async function requestSourceImage<T>(imageUrl: string, webcam: WebcamDto, secrets: RequestSecrets, hostLimiter: HostLimiter | null, read: (res: Response) => Promise<T>): Promise<T> {
+  return fetchSource(imageUrl, getConditionalRequestHeaders(webcam), webcam, secrets, hostLimiter, read);
+}
+
+/**
+ * Fetch a url for a webcam and read the response, when a host limiter is given a slot on the urls host is held until
+ * the body has been read or the read has failed
+ * Throws a HostBusyError if the host will not allow the fetch soon enough
+ */
+async function fetchSource<T>(url: string, headers: Record<string, string>, webcam: WebcamDto, secrets: RequestSecrets, hostLimiter: HostLimiter | null, read: (res: Response) => Promise<T>): Promise<T> {
+  if (!hostLimiter) {
+    return read(await fetchWithProfile(url, headers, webcam, secrets));
+  }
+
+  const host = getUrlHost(url);
+  await hostLimiter.acquire(host);
+  try {
+    return await read(await fetchWithProfile(url, headers, webcam, secrets));
+  } finally {
+    hostLimiter.finish(host);
+  }
+}
+
+/**
+ * Fetch a url with the headers from the webcams request profile
+ * When the profile sends credentials redirects are followed by hand, so each location is checked against the webcams
+ * origin and the credentials are dropped before a redirect to another origin is followed
+ */
+async function fetchWithProfile(url: string, headers: Record<string, string>, webcam: WebcamDto, secrets: RequestSecrets): Promise<Response> {
+  if (!hasRequestCredentials(webcam)) {
+    return fetchWithTimeout(url, { cache: "no-cache", headers: { ...buildRequestHeaders(webcam, secrets, url), ...headers } }, webcam);
+  }
+
+  let requestUrl = url;
+  for (let redirects = 0; ; redirects++) {
+    const res = await fetchWithTimeout(requestUrl, {
+      cache: "no-cache",
+      redirect: "manual",
+      headers: { ...buildRequestHeaders(webcam, secrets, requestUrl), ...headers },
+    }, webcam);
+
+    const location = res.headers.get("location");
+    if (!REDIRECT_STATUSES.includes(res.status) || !location) {
+      return res;
+    }
+
+    await res.body?.cancel();
+    if (redirects >= MAX_CREDENTIAL_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${url}`);
+    }
+    requestUrl = new URL(location, requestUrl).toString();
+  }
+}
+
+/**
+ * Read the image from a source response
+ * The body is read up to the webcams size limit and must be an image, the content type is taken from its magic bytes
+ */
+async function readSourceImage(imageUrl: string, res: Response, sourceTimestamp: number | null, webcam: WebcamDto): Promise<SourceImage> {
+  if (!res.ok && res.status !== 304) {
+    await res.body?.cancel();
+    throw createResponseError(res, `Fetch failed: ${res.status} ${res.statusText}`);
+  }
+
+  const notModified = res.status === 304;
+  let imageData: ArrayBuffer | null = null;
+  let contentType = res.headers.get("content-type") || "application/octet-stream";
+
+  if (!notModified) {
+    imageData = await readBodyWithLimit(res, webcam);
+
+    const validation = validateImageContent(contentType, imageData);
+    if (!validation.valid) {
+      throw new WebcamFetchError(validation.errorType, validation.reason);
+    }
+    contentType = validation.contentType;
+  }
+
+  return {
+    imageUrl,
+    notModified,
+    imageData,
+    contentType,
+    sourceTimestamp,
+    cacheValidators: getCacheValidators(res.headers),
+  };
+}
@@ -0,0 +1,44 @@
+// Utility functions for fetching images from webcams
+import { WebcamDto } from "../db/schema";
+
+/**
+ * Cache validators returned by a webcam's origin server
+ */
+export interface CacheValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Build the conditional request headers for a webcam using the validators saved from its last response
+ */
+export function getConditionalRequestHeaders(webcam: WebcamDto): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (webcam.lastEtag) {
+    headers['If-None-Match'] = webcam.lastEtag;
+  }
+
+  if (webcam.lastModified) {
+    headers['If-Modified-Since'] = webcam.lastModified;
+  }
+
+  return headers;
+}
+
+/**
+ * Read the cache validators from a webcam response
+ */
+export function getCacheValidators(headers: Headers): CacheValidators {
+  return {
+    etag: headers.get('etag'),
+    lastModified: headers.get('last-modified'),
+  };
+}
+
+/**
+ * Check if the validators in a response differ from the ones saved on the webcam
+ */
+export function haveCacheValidatorsChanged(webcam: WebcamDto, validators: CacheValidators): boolean {
+  return (webcam.lastEtag ?? null) !== validators.etag || (webcam.lastModified ?? null) !== validators.lastModified;
+}
@@ -1,7 +1,7 @@
 import { IRepository } from "../db/repositories";
-import { AnimationQueueEntry, AnimationType } from "../types";
+import { AnimationQueueEntry, AnimationType, SolarFallback } from "../types";
 import { generateAnimationStorageKey } from "../logic/animations";
-import { calculateWebcamSolarTimes } from "../logic/solar-calculations";
+import { calculateSolarDay, getProfileWindows, profileAppliesToWebcam } from "../logic/animation-profiles";
 import { getLocalDateKeyFromISOString } from "../logic/timezone";
 import { DateTime } from 'luxon';
 import { AnimationQueueRepository } from "@/db/repositories/animation-queue-repository";
@@ -16,6 +16,8 @@ export function createAnimationEntry(
 	scheduledTime: Date,
 	startTime: number,
 	endTime: number,
+	solarFallback: SolarFallback | null = null,
+	repeatHourly: boolean = false,
 ): AnimationQueueEntry {
 
 	const dateTime = DateTime.fromSeconds(startTime).setZone(webcam.timezone ?? '');
@@ -28,7 +30,7 @@ export function createAnimationEntry(
 
 
 	let referenceId: string;
-	if (animationType === 'hourly') {
+	if (repeatHourly) {
 		referenceId = `${webcam.id}_${animationType}_${dateStr}_${hourStr}`;
 	} else {
 		referenceId = `${webcam.id}_${animationType}_${dateStr}`;
@@ -40,7 +42,7 @@ export function createAnimationEntry(
 		webcam.name,
 		animationType,
 		dateStr,
-		hourStr);
+		repeatHourly ? hourStr : undefined);
 
 	// Calculate date_key based on webcam timezone
 	const dateKey = getLocalDateKeyFromISOString(scheduledTime.toISOString(), webcam.timezone || 'America/Denver');
@@ -59,7 +61,8 @@ export function createAnimationEntry(
 		error_message: null,
 		start_time: startTime,
 		end_time: endTime,
-		gif_storage_key: storageKey
+		gif_storage_key: storageKey,
+		solar_fallback: solarFallback
 	};
 }
 
@@ -68,26 +71,27 @@ export function createAnimationEntry(
  *
  * The date string param should be in the format of YYYY-MM-DD
  *
- * This function will create
- *  - 'hourly' animations for all hours from sunrise to sunset for the given day in the webcam's timezone
- *  - 'full_day' animations for the day specified in the webcams timezone
- *  - 'sunrise' and 'sunset' animations for the specified day in the webcams timezone
+ * An animation is created for each enabled animation profile that applies to the webcam (see profileAppliesToWebcam),
+ * with the window between the profiles start and end boundaries for the given day in the webcam's timezone
+ *  - Boundaries are solar events (see calculateSolarDay) or local clock times, with an optional offset in minutes
+ *  - Profiles that repeat hourly create an animation for each whole hour in their window
+ *  - Profiles whose window is empty, or starts or ends at an event that does not happen that day, are skipped
+ *  - Animations are scheduled 1 minute after their window ends
  *
  * Example: when given the dateString '2025-09-24' and a webcam located at 39.740, -104.975 with the timezone America/Denver
  *  - This webcam should have a sunrise at 06:49 local time and a sunset of 18:53 local time for the given date of 2025-09-24
  *  - This webcam should have a first light of time 05:51 local time and last light of 19:51 local time for the given date of 2025-09-24
- *  - Hourly animations including the hour of first and last light 1: (2025-09-24T06:00:00+06:00) -> (2025-09-24T07:00:00+06:00) ... x: (2025-09-24T18:00:00+06:00) -> (2025-09-24T19:00:00+06:00)
- *  - The sunrise and sunset animations should calculate a value sunriseDuration which should equal sunrise - first light this value will be used in the timing for sunrise and sunset animations
- *    in our example case this means sunrise duration is 58 minutes
- *  - Sunrise animations should be from first list - (.25 * sunriseDuration) to sunrise + (.25 sunriseDuration)
- *    in our example this mean our animation should be 05:51 - (.25 * 58 mins) to 06:49 + (.25 * 58mins)
- *    or (2025-09-24T05:26:30+06:00) -> (2025-09-24T07:03:30+06:00)
- *  - Sunset animations should use the same form of calculation but use the last light and sunset time instead
- *  - The full day should start at the same time the sun rise animation starts and end when the sunset animation ends
+ *  - The built in 'sunrise' profile runs from light_start to sunrise_end, where the sunrise duration is sunrise - first light
+ *    (58 minutes) and the window is 05:51 - (.25 * 58 mins) to 06:49 + (.25 * 58mins) or (2025-09-24T05:26:30-06:00) -> (2025-09-24T07:03:30-06:00)
+ *  - The built in 'hourly' profile creates animations for the whole hours in the light window 1: (2025-09-24T06:00:00-06:00) -> (2025-09-24T07:00:00-06:00) ...
  *  - The date key value should be the same as the dateString that was provided
+ *
+ * Days without a sunrise, sunset or twilight at high latitudes fall back to a defined window and the entries are
+ * flagged with solar_fallback (see SolarFallback), only profiles that include polar days are used on days without a sunrise or sunset
  */
 export async function createTodaysAnimations(repo: IRepository, dateString: string): Promise<{ success: boolean, item: AnimationQueueEntry}[]> {
 	const webcams = await repo.webcams.getEnabledWebcams();
+	const profiles = await repo.animationProfiles.getEnabledAnimationProfiles();
 	const animationsToCreate: AnimationQueueEntry[] = [];
 	const summary: { success: boolean, item: AnimationQueueEntry}[] = [];
 
@@ -118,88 +122,30 @@ export async function createTodaysAnimations(repo: IRepository, dateString: stri
 		const webcamStartOfDay = new Date(now.valueOf() - (webcamDailyOffset * 60 * 1000));
 		console.log('Webcam startOfDay Time : ' + webcamStartOfDay.toISOString());
 
-		const solarTimes = calculateWebcamSolarTimes(webcam.latLon, webcamStartOfDay.valueOf());
-		if (!solarTimes) {
+		const solarDay = calculateSolarDay(webcam, dateString, webcamStartOfDay.valueOf());
+		if (!solarDay) {
 			console.log(`Could not calculate solar times for ${webcam.name}`);
 			continue;
 		}
 
-
-
-		const sunriseDuration = solarTimes.sunrise - solarTimes.firstLight;
-		const sunsetDuration = solarTimes.lastLight - solarTimes.sunset;
-		const lightStart = solarTimes.firstLight - (0.25 * sunriseDuration);
-		const sunriseEnd = solarTimes.sunrise + (0.25 * sunriseDuration);
-		const sunsetStart = solarTimes.sunset - (0.25 * sunsetDuration);
-		const lightEnd = solarTimes.lastLight + (0.25 * sunsetDuration);
-
-		// Generate a sunrise animation (firstLight to sunrise)
-		if (!isNaN(lightStart) && !isNaN(lightEnd)) {
-			const sunriseAnimation = createAnimationEntry(
-				webcam,
-				'sunrise',
-				new Date(sunriseEnd + (1 * 60 * 1000)), // Schedule 1 minutes after sunriseEnd
-				Math.floor(lightStart / 1000), // Convert to seconds
-				Math.floor(sunriseEnd/ 1000)
-			);
-			animationsToCreate.push(sunriseAnimation);
-		}
-
-		// Generate a sunset animation (sunset to lastLight)
-		if (!isNaN(sunsetStart) && !isNaN(lightEnd)) {
-
-			const sunsetAnimation = createAnimationEntry(
-				webcam,
-				'sunset',
-				new Date(lightEnd + (1 * 60 * 1000)), /// Schedule 1 minute after lightEnd
-				Math.floor(sunsetStart / 1000),
-				Math.floor(lightEnd / 1000)
-			);
-			animationsToCreate.push(sunsetAnimation);
-		}
-
-		// Generate a sunrise to sunset animation (full day)
-		if (!isNaN(lightStart) && !isNaN(lightEnd)) {
-			const fullDayAnimation = createAnimationEntry(
-				webcam,
-				'full_day',
-				new Date(lightEnd + (1 * 60 * 1000)), // Schedule 1 minute after lightEnd
-				Math.floor(lightStart / 1000),
-				Math.floor(lightEnd / 1000)
-			);
-			animationsToCreate.push(fullDayAnimation);
-		}
-
-		// Generate hourly animation for each hour between sunrise and sunset
-		if (!isNaN(lightStart) && !isNaN(lightEnd)) {
-			const lightStartHour = new Date(lightStart);
-			const lightEndHour = new Date(lightEnd);
-
-			// Round sunrise up to next hour
-			lightStartHour.setMinutes(0, 0, 0);
-			if (lightStartHour.getTime() < solarTimes.firstLight) {
-				lightStartHour.setHours(lightStartHour.getHours() + 1);
+		for (const profile of profiles) {
+			if (!profileAppliesToWebcam(profile, webcam, solarDay)) {
+				continue;
 			}
 
-			// Generate hourly animations
-			const currentHour = new Date(lightStartHour);
-			while (currentHour.getTime() < lightEndHour.getTime()) {
-				const nextHour = new Date(currentHour);
-				nextHour.setHours(nextHour.getHours() + 1);
-
-				// Don't create hourly animation if it would extend past lightEnd
-				if (nextHour.getTime() <= lightEndHour.getTime()) {
-					const hourlyAnimation = createAnimationEntry(
-						webcam,
-						'hourly',
-						new Date(nextHour.getTime() + (1 * 60 * 1000)), // Schedule 5 minutes after hour ends
-						Math.floor(currentHour.getTime() / 1000),
-						Math.floor(nextHour.getTime() / 1000)
-					);
-					animationsToCreate.push(hourlyAnimation);
-				}
-
-				currentHour.setHours(currentHour.getHours() + 1);
+			for (const window of getProfileWindows(profile, solarDay, dateString, webcam.timezone)) {
+				const animation = createAnimationEntry(
+					webcam,
+					profile.name,
+					new Date(window.end + (1 * 60 * 1000)), // Schedule 1 minute after the window ends
+					Math.floor(window.start / 1000), // Convert to seconds
+					Math.floor(window.end / 1000),
+					solarDay.solarFallback,
+					!!profile.repeatHourly
+				);
+
+				// Windows such as the midnight sun and moonrise to moonset can end the next day
+				animationsToCreate.push({ ...animation, date_key: dateString });
 			}
 		}
 	}
@@ -1,5 +1,4 @@
 import { IRepository } from "../db/repositories";
-import { AnimationType } from "../types";
 import { interpolateImages, hasMinimumImages } from "../logic/animations";
 
 /**
@@ -18,6 +17,9 @@ export async function prepareAnimationsForPendingQueue(repo: IRepository, now: D
 			return;
 		}
 
+		// Frame counts and minimums come from the profile each animation was created from, even if it has since been disabled
+		const profiles = new Map((await repo.animationProfiles.getAnimationProfiles()).map(profile => [profile.name, profile]));
+
 		let processedCount = 0;
 		let pendingCount = 0;
 		let failedCount = 0;
@@ -47,33 +49,17 @@ export async function prepareAnimationsForPendingQueue(repo: IRepository, now: D
 				console.log(images.length);
 				const imageKeys = images.map(x => x.objectName);
 
-				// We should calculate the total number of images in the animation / animation based off the fixed framerate of 15 fps and the length of time
-				// the animation should play for i.e. animation.totalTime
-				var totalImages: number;
-				console.log(animation.gifType);
-				switch (animation.gifType)
-				{
-					case 'full_day':
-						totalImages = 10 * 20;
-						break;
-					case 'hourly' :
-						totalImages = 4 * 20;
-						break;
-					case 'sunrise' :
-					case 'sunset' :
-						totalImages = 8 * 20;
-						break;
-					default:
-						totalImages = imageKeys.length;
-						break;
-				}
+				// The total number of images comes from the animations profile, animations without a profile such as
+				// on demand animations use all of the images in the time range
+				const profile = profiles.get(animation.gifType);
+				const totalImages = profile?.frameCount ?? imageKeys.length;
 
 
 				// Desample the images to get evenly distributed subset
 				const selectedImages = interpolateImages(images, totalImages, animation.startTime, animation.endTime);
 
 				// Check if we have sufficient images for this GIF type
-				if (hasMinimumImages(animation.gifType as AnimationType, selectedImages.length)) {
+				if (hasMinimumImages(profile, selectedImages.length)) {
 					// Update animation with selected images and set status to pending
 					await repo.animationQueue.updateAnimationWithImages(animation.id, 'pending', selectedImages.map(x => x.objectName));
 					pendingCount++;
@@ -2,7 +2,9 @@ export * from './animationCleanup';
 export * from './animationCreation';
 export * from './animationFinalization';
 export * from './imageCleanup';
+export * from './onDemandAnimations';
 export * from './processAllWebcams';
+export * from './seasonalAnimations';
 
 
 
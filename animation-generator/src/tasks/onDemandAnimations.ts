@@ -0,0 +1,78 @@
+import { IRepository } from "../db/repositories";
+import { GifCreationQueue, WebcamDto } from "@/db/schema";
+import { AnimationQueueEntry } from "../types";
+import { generateAnimationStorageKey, hasMinimumImages, interpolateImages, ON_DEMAND_ANIMATION_TYPE } from "../logic/animations";
+import { getLocalDateKeyFromISOString } from "../logic/timezone";
+import { DateTime } from 'luxon';
+
+/**
+ * This function will create an on demand animation for a webcam between the start and end time (unix seconds)
+ *
+ * The frames are selected up front so the animation is added with the status "pending" and goes straight to the renderer
+ *  - frameCount images are selected evenly across the time range (see interpolateImages)
+ *  - The animation is not created when the time range does not have the minimum distinct images for an animation
+ *    without a profile
+ *  - The requested fps is stored on the animation and returned to the renderer with it
+ *  - An animation already queued or rendered for the same time range is returned instead of queueing another render
+ */
+export async function createOnDemandAnimation(
+	repo: IRepository,
+	webcam: WebcamDto,
+	startTime: number,
+	endTime: number,
+	frameCount: number,
+	fps: number
+): Promise<{ success: boolean, message: string, item?: GifCreationQueue }> {
+	const referenceId = `${webcam.id}_${ON_DEMAND_ANIMATION_TYPE}_${startTime}_${endTime}`;
+	const existing = await repo.animationQueue.getAnimationByReferenceId(referenceId);
+	if (existing && existing.status !== 'failed') {
+		return { success: true, message: 'On demand animation already queued', item: existing };
+	}
+
+	const images = await repo.imageRepository.getImagesForTimeRange(webcam, startTime, endTime);
+	const selectedImages = interpolateImages(images, frameCount, startTime, endTime).slice(0, frameCount);
+
+	// Sparse time ranges repeat images to fill the frames, so check the coverage with the distinct images
+	const distinctImages = new Set(selectedImages.map(x => x.objectName)).size;
+	if (!hasMinimumImages(undefined, distinctImages)) {
+		return {
+			success: false,
+			message: `Insufficient images: found ${distinctImages} distinct images in the time range, required minimum for ${ON_DEMAND_ANIMATION_TYPE}`
+		};
+	}
+
+	const start = DateTime.fromSeconds(startTime).setZone(webcam.timezone ?? '');
+	const createdAt = new Date().toISOString();
+
+	const animation: AnimationQueueEntry = {
+		id: 0,
+		webcam_id: webcam.id,
+		reference_id: referenceId,
+		gif_type: ON_DEMAND_ANIMATION_TYPE,
+		scheduled_time: createdAt,
+		date_key: getLocalDateKeyFromISOString(new Date(startTime * 1000).toISOString(), webcam.timezone || 'America/Denver'),
+		image_list: selectedImages.map(x => x.objectName),
+		status: 'pending',
+		created_at: createdAt,
+		processed_at: null,
+		error_message: null,
+		start_time: startTime,
+		end_time: endTime,
+		gif_storage_key: generateAnimationStorageKey(
+			webcam.nationalPark || 'unknown',
+			webcam.name,
+			ON_DEMAND_ANIMATION_TYPE,
+			start.toFormat('yyyyMMdd'),
+			`${startTime}_${endTime}`),
+		solar_fallback: null,
+		fps
+	};
+
+	const created = await repo.animationQueue.addAnimationToQueue(animation);
+	if (!created) {
+		return { success: false, message: `Failed to write animation to db : ${animation.reference_id}` };
+	}
+
+	console.log(`${webcam.name}: Queued an on demand animation with ${selectedImages.length} frames from ${distinctImages} distinct images`);
+	return { success: true, message: 'On demand animation queued', item: created };
+}
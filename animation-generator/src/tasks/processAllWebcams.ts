@@ -1,29 +1,77 @@
 import { IRepository } from "../db/repositories";
 import { WebcamDto } from "..//db/schema";
-import { calculateImageHash, guessExt } from "../logic/image";
+import { calculateImageHash, calculatePerceptualHash, decodeJpeg, getThumbnailKey, guessExt, hammingDistance, readExifDateTimeOriginal } from "../logic/image";
 import { R2CallTracker } from "../logic/r2-tracker";
-import { shouldCaptureImage } from "../logic/tasks";
+import { isNightModeCapture, shouldCaptureImage } from "../logic/tasks";
+import { haveCacheValidatorsChanged } from "../logic/webcam";
+import { resolveSourceImage } from "../logic/webcam-sources";
+import { WebcamFetchError } from "../logic/fetch-safeguards";
+import { getWebcamCredentials, redactCredentials, RequestSecrets } from "../logic/request-profile";
+import { evaluateFeedStaleness, isFeedStale, recordCaptureFailure } from "../logic/webcam-health";
+import { validateFrame } from "../logic/frame-validation";
+import { now } from "../logic/timestamp";
+import { resolveCaptureTime } from "../logic/capture-time";
+import { applyImagePreset, hasImagePreset } from "../logic/image-preset";
+import { createThumbnail, DEFAULT_THUMBNAIL_OPTIONS, ThumbnailOptions } from "../logic/thumbnail";
+import { CapturePlannerOptions, DEFAULT_CAPTURE_PLANNER_OPTIONS, getHostLimits, getWebcamHost, HostBusyError, HostLimiter, planCaptureCycle, runWithConcurrencyLimit } from "../logic/capture-planner";
 
 /**
  * Main processing function for all webcams
+ * Only the webcams planned for the current minute slot are processed, with a cap on how many run at once
+ * and how long the cycle can keep starting new webcams. Fetches to the same host are spaced out using the
+ * hosts politeness limits.
  */
-export async function processAllWebcams(repo: IRepository, bucket: R2Bucket): Promise<void> {
+export async function processAllWebcams(
+	repo: IRepository,
+	bucket: R2Bucket,
+	options: CapturePlannerOptions = DEFAULT_CAPTURE_PLANNER_OPTIONS,
+	thumbnailOptions: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS,
+	secrets: RequestSecrets = {}
+): Promise<void> {
 	console.log("Starting webcam processing cycle");
+	const cycleStartTime = Date.now();
 
 	try {
 		// Get all enabled webcams from D1
 		const webcams = await repo.webcams.getEnabledWebcams();
 		console.log(`Found ${webcams.length} enabled webcams`);
 
-		// Process each webcam independently
-		const results = await Promise.allSettled(
-			webcams.map(webcam => processWebcam(repo, bucket, webcam))
+		// Work out which webcams belong to this cycle
+		const hostLimits = getHostLimits(await repo.captureHosts.getCaptureHosts());
+		const plan = planCaptureCycle(webcams, now(), options, hostLimits);
+		console.log(`Planned ${plan.webcams.length} webcams for minute slot ${plan.minuteSlot} (${plan.deferred.length} deferred)`);
+
+		// Process each planned webcam independently
+		const hostLimiter = new HostLimiter(hostLimits);
+		const outcomes: WebcamOutcome[] = [];
+		const results = await runWithConcurrencyLimit(
+			plan.webcams,
+			options.concurrency,
+			async webcam => {
+				outcomes.push(await processWebcam(repo, bucket, webcam, thumbnailOptions, secrets, hostLimiter));
+			},
+			() => Date.now() - cycleStartTime < options.cycleTimeBudgetMs
 		);
 
+		// Webcams whose error handling itself failed are counted as failed too
+		const countOutcome = (outcome: WebcamOutcome) => outcomes.filter(result => result === outcome).length;
+		const failed = countOutcome('failed') + results.failed;
+		const deferred = countOutcome('deferred');
+
 		// Log overall results
-		const successful = results.filter(r => r.status === 'fulfilled').length;
-		const failed = results.filter(r => r.status === 'rejected').length;
-		console.log(`Webcam processing complete: ${successful} successful, ${failed} failed`);
+		const durationMs = Date.now() - cycleStartTime;
+		console.log(`Webcam processing complete in ${durationMs}ms: ${countOutcome('captured')} captured, ${countOutcome('skipped')} skipped, ${failed} failed, ${deferred + results.notStarted} not started`);
+
+		await repo.diagnostics.logCaptureCycle({
+			startedAt: new Date(cycleStartTime).toISOString(),
+			minuteSlot: plan.minuteSlot,
+			webcamsEnabled: webcams.length,
+			webcamsPlanned: plan.webcams.length,
+			webcamsProcessed: results.successful + results.failed - deferred,
+			webcamsFailed: failed,
+			webcamsDeferred: plan.deferred.length + results.notStarted + deferred,
+			durationMs,
+		});
 
 	} catch (error) {
 		console.error("Critical error in webcam processing:", error);
@@ -31,17 +79,33 @@ export async function processAllWebcams(repo: IRepository, bucket: R2Bucket): Pr
 	}
 }
 
+/**
+ * Outcome of processing a single webcam in a capture cycle
+ * - captured: a new image was saved
+ * - skipped: the webcam was not due, or its image was unchanged or rejected
+ * - failed: the capture failed and counts towards the webcams circuit breaker, or its host rate limited it
+ * - deferred: the webcams host was too busy to fetch from, it is left for a later cycle
+ */
+export type WebcamOutcome = 'captured' | 'skipped' | 'failed' | 'deferred';
+
 /**
  * Process a single webcam
  */
-export async function processWebcam(repo: IRepository, bucket: R2Bucket, webcam: WebcamDto): Promise<void> {
+export async function processWebcam(
+	repo: IRepository,
+	bucket: R2Bucket,
+	webcam: WebcamDto,
+	thumbnailOptions: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS,
+	secrets: RequestSecrets = {},
+	hostLimiter: HostLimiter | null = null
+): Promise<WebcamOutcome> {
 	const startTime = Date.now();
 	const r2Tracker = new R2CallTracker(bucket);
 
 	try {
 		console.log(`Processing webcam: ${webcam.name}`);
 
-		const imageReport = await captureWebCamImage(webcam, repo, r2Tracker);
+		const imageReport = await captureWebCamImage(webcam, repo, r2Tracker, thumbnailOptions, secrets, hostLimiter);
 
 		// Update diagnostics with R2 call classification
 		await repo.diagnostics.updateWebcamDiagnostics(
@@ -51,21 +115,31 @@ export async function processWebcam(repo: IRepository, bucket: R2Bucket, webcam:
 			r2Tracker.getTotalClassACalls(),
 			r2Tracker.getTotalClassBCalls(),
 			imageReport?.imageSize ?? 0,
-			imageReport?.imageSize ?? 0, // bytesStored
+			imageReport?.bytesStored ?? 0, // bytesStored (image and thumbnail)
 			0,
 			0
 		);
 
 		const processingTime = Date.now() - startTime;
 		console.log(`${webcam.name}: Processing completed in ${processingTime}ms (Class A: ${r2Tracker.getTotalClassACalls()}, Class B: ${r2Tracker.getTotalClassBCalls()})`);
+		return imageReport ? 'captured' : 'skipped';
 
 	} catch (error) {
-		console.error(`${webcam.name}: Processing failed:`, error);
+		// The host is too busy to fetch from this cycle, try again next cycle without counting a failure
+		if (error instanceof HostBusyError) {
+			console.log(`${webcam.name}: ${error.message}, leaving for a later cycle`);
+			return 'deferred';
+		}
+
+		// Remove the webcams credentials before the error is logged anywhere
+		const credentials = getWebcamCredentials(webcam, secrets);
+		const errorMessage = redactCredentials(error instanceof Error ? error.message : String(error), credentials);
+		const errorStack = error instanceof Error && error.stack ? redactCredentials(error.stack, credentials) : undefined;
+		console.error(`${webcam.name}: Processing failed: ${errorMessage}`);
 
-		// Log error to database
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		const errorStack = error instanceof Error ? error.stack : undefined;
-		await repo.diagnostics.logWebcamError(webcam.id, 'processing_error', errorMessage, JSON.stringify({
+		// Log error to database, fetch safeguard violations are logged under their own error type
+		const errorType = error instanceof WebcamFetchError ? error.errorType : 'processing_error';
+		await repo.diagnostics.logWebcamError(webcam.id, errorType, errorMessage, JSON.stringify({
 			stack: errorStack,
 			processingTime: Date.now() - startTime,
 			r2CallsMade: r2Tracker.getTotalCalls()
@@ -73,11 +147,61 @@ export async function processWebcam(repo: IRepository, bucket: R2Bucket, webcam:
 
 		// Log error activity
 		await repo.diagnostics.logWebcamActivity(webcam.id, 'error', null, 0, r2Tracker.getTotalCalls(), `Processing error: ${errorMessage}`);
+
+		// The host asked us to slow down, hold off every webcam on it rather than counting a failure against this one
+		if (await deferRateLimitedHost(repo, hostLimiter, webcam, error)) {
+			return 'failed';
+		}
+
+		// Back off from the webcam, suspending it after too many consecutive failures
+		const circuitBreaker = recordCaptureFailure(webcam, now());
+		await repo.webcams.updateWebcam(webcam.id, circuitBreaker);
+
+		if (circuitBreaker.healthState === 'suspended' && webcam.healthState !== 'suspended') {
+			console.log(`${webcam.name}: Suspended after ${circuitBreaker.consecutiveFailures} consecutive failures`);
+			await repo.diagnostics.logWebcamActivity(webcam.id, 'error', null, 0, 0, `Webcam suspended after ${circuitBreaker.consecutiveFailures} consecutive failures, next recovery probe at ${circuitBreaker.nextAttemptAt}`);
+		} else {
+			console.log(`${webcam.name}: ${circuitBreaker.consecutiveFailures} consecutive failures, next attempt at ${circuitBreaker.nextAttemptAt}`);
+		}
+
+		return 'failed';
 	}
 }
 
+/**
+ * Save an image uploaded by a push webcam
+ */
+export async function ingestUploadedImage(repo: IRepository, bucket: R2Bucket, webcam: WebcamDto, image: ReceivedImage, thumbnailOptions: ThumbnailOptions = DEFAULT_THUMBNAIL_OPTIONS): Promise<StoreImageResult> {
+	const r2Tracker = new R2CallTracker(bucket);
+	console.log(`Receiving uploaded image for webcam: ${webcam.name}`);
+
+	const result = await storeWebcamImage(webcam, repo, r2Tracker, image, thumbnailOptions);
+
+	// Update diagnostics with R2 call classification
+	await repo.diagnostics.updateWebcamDiagnostics(
+		webcam.id,
+		result.outcome === 'captured' ? 1 : 0, // imagesCaptured
+		result.outcome === 'captured' ? 0 : 1, // imagesSkipped
+		r2Tracker.getTotalClassACalls(),
+		r2Tracker.getTotalClassBCalls(),
+		result.outcome === 'captured' ? result.imageSize : 0,
+		result.bytesStored,
+		0,
+		0
+	);
+
+	console.log(`${webcam.name}: Uploaded image ${result.outcome} (${result.reason})`);
+	return result;
+}
 
-async function captureWebCamImage(webcam: WebcamDto, repo: IRepository, r2Tracker: R2CallTracker): Promise<null | { imageSize: number, }> {
+async function captureWebCamImage(
+	webcam: WebcamDto,
+	repo: IRepository,
+	r2Tracker: R2CallTracker,
+	thumbnailOptions: ThumbnailOptions,
+	secrets: RequestSecrets,
+	hostLimiter: HostLimiter | null
+): Promise<null | { imageSize: number, bytesStored: number }> {
 	// Check if it's time to capture
 	const shouldCaptureWebcam = shouldCaptureImage(webcam);
 	if (!shouldCaptureWebcam.shouldCapture) {
@@ -85,22 +209,94 @@ async function captureWebCamImage(webcam: WebcamDto, repo: IRepository, r2Tracke
 		return null;
 	}
 
-	// Fetch image from webcam
-	const res = await fetch(webcam.url, { cache: "no-cache" });
+	// Resolve the current image from the webcams source, falling back to its alternate urls
+	const fetchedAt = now();
+	const resolved = await resolveSourceImage(webcam, fetchedAt, secrets, hostLimiter);
 
-	if (res.status === 304) {
+	// Track how reliable each source is, a source whose host was too busy was never fetched so it is not counted
+	const credentials = getWebcamCredentials(webcam, secrets);
+	for (const attempt of resolved.attempts) {
+		if (attempt.error instanceof HostBusyError) {
+			continue;
+		}
+
+		const errorMessage = attempt.error ? redactCredentials(attempt.error instanceof Error ? attempt.error.message : String(attempt.error), credentials) : null;
+		await repo.diagnostics.recordSourceAttempt(webcam.id, attempt.sourceUrl, !attempt.error, errorMessage);
+	}
+
+	// Every source failed, report the primary sources error
+	// When a host was too busy to try one of the sources the webcam is deferred instead of counted as a failure
+	const sourceImage = resolved.image;
+	if (!sourceImage) {
+		const busyAttempt = resolved.attempts.find(attempt => attempt.error instanceof HostBusyError);
+		throw busyAttempt ? busyAttempt.error : resolved.attempts[0].error;
+	}
+
+	if (!resolved.isPrimary) {
+		console.log(`${webcam.name}: Primary source failed, image served by fallback ${resolved.sourceUrl}`);
+		await deferRateLimitedHost(repo, hostLimiter, webcam, resolved.attempts[0].error);
+	}
+
+	// The webcam responded so close the circuit breaker, a feed that went stale before failing is still stale
+	if (webcam.consecutiveFailures) {
+		console.log(`${webcam.name}: Recovered after ${webcam.consecutiveFailures} consecutive failures`);
+		await repo.webcams.updateWebcam(webcam.id, { consecutiveFailures: 0, nextAttemptAt: null, healthState: isFeedStale(webcam) ? 'stale' : 'healthy' });
+	}
+
+	if (sourceImage.notModified || !sourceImage.imageData) {
 		console.log(`${webcam.name}: Image not modified (304)`);
-		await repo.diagnostics.logWebcamActivity(webcam.id, 'image_skipped', null, 0, 0, 'HTTP 304 - Not Modified');
+		await repo.diagnostics.logWebcamActivity(webcam.id, 'image_not_modified', webcam.lastImageHash, 0, 0, 'HTTP 304 - Not Modified by origin', sourceImage.imageUrl);
+		await trackUnchangedFeed(webcam, repo);
 		return null;
 	}
 
-	if (!res.ok) {
-		throw new Error(`Fetch failed: ${res.status} ${res.statusText}`);
+	// Save the image unless it is a duplicate or a rejected frame
+	const result = await storeWebcamImage(webcam, repo, r2Tracker, {
+		imageData: sourceImage.imageData,
+		contentType: sourceImage.contentType,
+		receivedAt: fetchedAt,
+		sourceTimestamp: sourceImage.sourceTimestamp,
+		lastModified: sourceImage.cacheValidators.lastModified,
+		sourceUrl: sourceImage.imageUrl,
+	}, thumbnailOptions);
+
+	// Save the validators for the next conditional request to the primary source once the image has been stored,
+	// skipped or rejected, so a failed save does not leave the origin answering 304 for an image we never kept
+	if (resolved.isPrimary && haveCacheValidatorsChanged(webcam, sourceImage.cacheValidators)) {
+		await repo.webcams.updateWebcamCacheValidators(webcam.id, sourceImage.cacheValidators);
 	}
 
+	return result.outcome === 'captured' ? { imageSize: result.imageSize, bytesStored: result.bytesStored } : null;
+}
+
+/**
+ * An image received from a webcam, either fetched from its source or uploaded by the camera
+ */
+export interface ReceivedImage {
+	imageData: ArrayBuffer;
+	contentType: string;
+	receivedAt: number;              // Time the worker received the image (milliseconds)
+	sourceTimestamp: number | null;  // Time the image was taken according to the source (milliseconds)
+	lastModified: string | null;     // Last-Modified response header
+	sourceUrl: string | null;        // Url the image was fetched from, null for uploaded images
+}
+
+export interface StoreImageResult {
+	outcome: 'captured' | 'skipped' | 'rejected';
+	reason: string;
+	imageKey: string | null;
+	imageSize: number;
+	bytesStored: number;
+}
+
+/**
+ * Save a received image to R2 and the images table
+ * Exact and near duplicates of the last saved image are skipped and invalid frames are rejected
+ */
+export async function storeWebcamImage(webcam: WebcamDto, repo: IRepository, r2Tracker: R2CallTracker, image: ReceivedImage, thumbnailOptions: ThumbnailOptions): Promise<StoreImageResult> {
 	// Get image data and metadata
-	const contentType = res.headers.get("content-type") || "application/octet-stream";
-	const body = await res.arrayBuffer();
+	const contentType = image.contentType;
+	const body = image.imageData;
 	const imageSize = body.byteLength;
 
 	// Calculate hash for duplicate detection
@@ -111,46 +307,159 @@ async function captureWebCamImage(webcam: WebcamDto, repo: IRepository, r2Tracke
 		console.log(`${webcam.name}: Image unchanged (hash: ${newImageHash.substring(0, 8)}...), skipping save`);
 
 		// Log skipped image
-		await repo.diagnostics.logWebcamActivity(webcam.id, 'image_skipped', newImageHash, imageSize, r2Tracker.getTotalCalls(), 'Duplicate image detected');
+		await repo.diagnostics.logWebcamActivity(webcam.id, 'image_skipped', newImageHash, imageSize, r2Tracker.getTotalCalls(), 'Duplicate image detected (hash match)', image.sourceUrl);
 		await repo.diagnostics.updateWebcamDiagnostics(webcam.id, 0, 1, r2Tracker.getTotalClassACalls(), r2Tracker.getTotalClassBCalls(), 0, 0, 0, 0);
-		return null;
+		await trackUnchangedFeed(webcam, repo);
+		return { outcome: 'skipped', reason: 'duplicate image', imageKey: null, imageSize, bytesStored: 0 };
+	}
+
+	// Decode the image and calculate perceptual hash for near-duplicate detection
+	const decodedImage = contentType.includes("jpeg") ? decodeJpeg(body) : null;
+
+	// Analyse the image with the webcams crop, masks and rotation applied so burned in timestamps and banners are ignored
+	const analysisImage = decodedImage && hasImagePreset(webcam.imagePreset) ? applyImagePreset(decodedImage, webcam.imagePreset) : decodedImage;
+	const newPerceptualHash = analysisImage ? calculatePerceptualHash(analysisImage) : null;
+
+	// Reject black, blank, corrupted and placeholder frames
+	const frameValidation = validateFrame(webcam, {
+		contentType,
+		imageData: body,
+		imageHash: newImageHash,
+		decodedImage: analysisImage,
+		perceptualHash: newPerceptualHash,
+		nightMode: isNightModeCapture(webcam, image.sourceTimestamp ?? image.receivedAt),
+	});
+	if (!frameValidation.valid) {
+		console.log(`${webcam.name}: Frame rejected (${frameValidation.reason}), skipping save`);
+		await repo.diagnostics.logWebcamActivity(webcam.id, 'image_rejected', newImageHash, imageSize, r2Tracker.getTotalCalls(), `Frame rejected: ${frameValidation.reason}`, image.sourceUrl);
+		return { outcome: 'rejected', reason: frameValidation.reason, imageKey: null, imageSize, bytesStored: 0 };
+	}
+
+	// Check if image is visually the same as the last saved image
+	if (newPerceptualHash && webcam.lastPerceptualHash && webcam.perceptualHashThreshold != null) {
+		const distance = hammingDistance(newPerceptualHash, webcam.lastPerceptualHash);
+		if (distance <= webcam.perceptualHashThreshold) {
+			console.log(`${webcam.name}: Image nearly identical (perceptual distance: ${distance}), skipping save`);
+
+			// Log skipped image
+			await repo.diagnostics.logWebcamActivity(webcam.id, 'image_skipped', newImageHash, imageSize, r2Tracker.getTotalCalls(), `Near-duplicate image detected (perceptual distance ${distance} <= ${webcam.perceptualHashThreshold})`, image.sourceUrl);
+			return { outcome: 'skipped', reason: 'near duplicate image', imageKey: null, imageSize, bytesStored: 0 };
+		}
 	}
 
 	console.log(`${webcam.name}: Image changed, saving new image (hash: ${newImageHash.substring(0, 8)}...)`);
 
 	// Save images to R2 using tracker
 
+	// Use the time the camera took the image rather than the time it was fetched where the source reports it
+	const captureTime = resolveCaptureTime(webcam, {
+		sourceTimestamp: image.sourceTimestamp,
+		exif: contentType.includes("jpeg") ? readExifDateTimeOriginal(body) : null,
+		lastModified: image.lastModified,
+	}, image.receivedAt);
+	const sourceUnixTimestamp = Math.floor(captureTime.timestamp / 1000);
+
 	// Save timestamped history if enabled
-	const unixTimestamp = Math.floor(Date.now() / 1000); // Unix timestamp in seconds
+	// Push webcams can upload more than one image a second, so their keys include the start of the image hash
+	const unixTimestamp = Math.floor(image.receivedAt / 1000); // Unix timestamp in seconds
 	const ext = guessExt(contentType);
-	const historyKey = `images/${webcam.nationalPark}/${webcam.name}/${unixTimestamp}${ext}`;
+	const keySuffix = webcam.sourceType === 'push' ? `_${newImageHash.substring(0, 12)}` : '';
+	const historyKey = `images/${webcam.nationalPark}/${webcam.name}/${unixTimestamp}${keySuffix}${ext}`;
 
 	// Save timestamped history (Class A operation)
 	await r2Tracker.putObject(historyKey, body, {
 		httpMetadata: { contentType },
 		customMetadata: {
 			imageHash: newImageHash,
-			unixTimestamp: unixTimestamp.toString()
+			unixTimestamp: unixTimestamp.toString(),
+			sourceUnixTimestamp: sourceUnixTimestamp.toString(),
+			sourceTimeSource: captureTime.source
 		}
 	});
 
+	// Save a downscaled thumbnail for galleries (Class A operation)
+	let thumbnailKey: string | null = null;
+	let thumbnailSize = 0;
+	if (thumbnailOptions.enabled && decodedImage) {
+		try {
+			const thumbnail = createThumbnail(decodedImage, thumbnailOptions);
+			const key = getThumbnailKey(historyKey);
+			await r2Tracker.putObject(key, thumbnail, {
+				httpMetadata: { contentType: "image/jpeg" },
+				customMetadata: {
+					imageKey: historyKey,
+					unixTimestamp: unixTimestamp.toString()
+				}
+			});
+			thumbnailKey = key;
+			thumbnailSize = thumbnail.byteLength;
+		} catch (error) {
+			console.error(`${webcam.name}: Failed to save thumbnail:`, error);
+			// Continue processing, the full size image is already saved
+		}
+	}
+
 	// Add image to images table in database
 	try {
-		await repo.imageRepository.addImageToDatabase(webcam.id, unixTimestamp, historyKey);
+		await repo.imageRepository.addImageToDatabase(webcam.id, unixTimestamp, historyKey, newPerceptualHash, sourceUnixTimestamp, thumbnailKey);
 	} catch (error) {
 		console.error(`Failed to add image to database for ${webcam.name}:`, error);
 		// Continue processing even if database insertion fails
 	}
 
 	// Update webcam status in database
-	await repo.webcams.updateWebcamStatus(webcam.id, newImageHash);
+	await repo.webcams.updateWebcamStatus(webcam.id, newImageHash, newPerceptualHash);
+
+	// A new image means the feed is no longer stale
+	if (isFeedStale(webcam)) {
+		console.log(`${webcam.name}: Feed recovered after ${webcam.unchangedDaylightMinutes} daylight minutes without a new image`);
+		await repo.diagnostics.resolveWebcamErrors(webcam.id, 'stale_feed');
+	}
 
 	// Calculate costs and update diagnostics
 
 	const totalR2Calls = r2Tracker.getTotalCalls();
 
 	// Log successful capture
-	await repo.diagnostics.logWebcamActivity(webcam.id, 'image_captured', newImageHash, imageSize, totalR2Calls, 'Image successfully captured and saved');
+	await repo.diagnostics.logWebcamActivity(webcam.id, 'image_captured', newImageHash, imageSize, totalR2Calls, `Image successfully captured and saved (capture time from ${captureTime.source})`, image.sourceUrl);
+
+	return { outcome: 'captured', reason: `capture time from ${captureTime.source}`, imageKey: historyKey, imageSize, bytesStored: imageSize + thumbnailSize };
+}
+
+/**
+ * Hold off fetching from a webcams host when the error is a rate limit with a retry time, returns false for other errors
+ */
+async function deferRateLimitedHost(repo: IRepository, hostLimiter: HostLimiter | null, webcam: WebcamDto, error: unknown): Promise<boolean> {
+	if (!(error instanceof WebcamFetchError) || error.errorType !== 'rate_limited' || !error.retryAt) {
+		return false;
+	}
 
-	return { imageSize };
+	const host = getWebcamHost(webcam);
+	console.log(`${webcam.name}: Host ${host} rate limited, next fetch at ${new Date(error.retryAt).toISOString()}`);
+	hostLimiter?.defer(host, error.retryAt);
+	await repo.captureHosts.deferCaptureHost(host, new Date(error.retryAt).toISOString());
+	return true;
+}
+
+/**
+ * Track how long a webcam has gone without a new image and flag the feed as stale once it passes the webcams threshold
+ */
+async function trackUnchangedFeed(webcam: WebcamDto, repo: IRepository): Promise<void> {
+	const currentTime = now();
+	const staleness = evaluateFeedStaleness(webcam, currentTime);
+
+	await repo.webcams.updateWebcam(webcam.id, {
+		unchangedDaylightMinutes: staleness.unchangedDaylightMinutes,
+		unchangedCheckedAt: new Date(currentTime).toISOString(),
+		...(staleness.isStale ? { healthState: 'stale' } : {}),
+	});
+
+	if (staleness.isStale && !isFeedStale(webcam)) {
+		console.log(`${webcam.name}: Feed is stale, no new image for ${staleness.unchangedDaylightMinutes} daylight minutes`);
+		await repo.diagnostics.logWebcamError(webcam.id, 'stale_feed', `No new image for ${staleness.unchangedDaylightMinutes} daylight minutes`, JSON.stringify({
+			lastImageHash: webcam.lastImageHash,
+			lastActiveAt: webcam.lastActiveAt,
+			staleThresholdMinutes: webcam.staleThresholdMinutes,
+		}));
+	}
 }
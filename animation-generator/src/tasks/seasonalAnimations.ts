@@ -0,0 +1,105 @@
+import { IRepository } from "../db/repositories";
+import { GifCreationQueue, WebcamDto } from "@/db/schema";
+import { AnimationQueueEntry, AnimationWindowBoundary } from "../types";
+import { generateAnimationStorageKey, getImageCaptureTime } from "../logic/animations";
+import { DEFAULT_MIN_FRAMES } from "../logic/animation-profiles";
+import {
+	getSeasonalAnchorLabel,
+	getSeasonalAnchorTimes,
+	SEASONAL_ANIMATION_TYPE,
+	SEASONAL_FRAME_TOLERANCE_MINUTES,
+	selectSeasonalFrame
+} from "../logic/seasonal-timelapse";
+
+// Days of images loaded per query, so a year long animation takes a handful of queries rather than one per day
+const SEASONAL_QUERY_DAYS = 31;
+
+/**
+ * This function will create a seasonal animation for a webcam with one frame per local day at the anchor time,
+ * from the start date to the end date (YYYY-MM-DD, inclusive)
+ *
+ * The frames are assembled up front so the animation is added with the status "pending" and goes straight to the renderer
+ *  - Images are loaded SEASONAL_QUERY_DAYS days at a time and each days frame is picked in memory
+ *  - Each days frame is the image closest to the anchor within SEASONAL_FRAME_TOLERANCE_MINUTES (see selectSeasonalFrame)
+ *  - Days without an image near the anchor are skipped
+ *  - The animation is not created when fewer than DEFAULT_MIN_FRAMES days have a frame
+ *  - An animation already queued or rendered for the same dates and anchor is returned instead of queueing another render
+ */
+export async function createSeasonalAnimation(
+	repo: IRepository,
+	webcam: WebcamDto,
+	startDate: string,
+	endDate: string,
+	anchor: AnimationWindowBoundary
+): Promise<{ success: boolean, message: string, item?: GifCreationQueue }> {
+	const anchorLabel = getSeasonalAnchorLabel(anchor);
+	const dateStamp = `${startDate.replaceAll('-', '')}_${endDate.replaceAll('-', '')}`;
+	const referenceId = `${webcam.id}_${SEASONAL_ANIMATION_TYPE}_${dateStamp}_${anchorLabel}`;
+
+	const existing = await repo.animationQueue.getAnimationByReferenceId(referenceId);
+	if (existing && existing.status !== 'failed') {
+		return { success: true, message: 'Seasonal animation already queued', item: existing };
+	}
+
+	const anchorTimes = getSeasonalAnchorTimes(webcam, startDate, endDate, anchor);
+	const tolerance = SEASONAL_FRAME_TOLERANCE_MINUTES * 60;
+
+	const frames: { time: number, objectName: string }[] = [];
+	for (let i = 0; i < anchorTimes.length; i += SEASONAL_QUERY_DAYS) {
+		const batch = anchorTimes.slice(i, i + SEASONAL_QUERY_DAYS);
+		const batchStart = Math.floor(batch[0].time / 1000) - tolerance;
+		const batchEnd = Math.floor(batch[batch.length - 1].time / 1000) + tolerance;
+		const images = await repo.imageRepository.getImagesForTimeRange(webcam, batchStart, batchEnd);
+
+		for (const anchorTime of batch) {
+			const anchorSeconds = Math.floor(anchorTime.time / 1000);
+			const nearAnchor = images.filter(image => Math.abs(getImageCaptureTime(image) - anchorSeconds) <= tolerance);
+
+			const frame = selectSeasonalFrame(nearAnchor, anchorTime.time, anchor);
+			if (!frame) {
+				console.log(`${webcam.name}: No image near the seasonal anchor on ${anchorTime.dateString}`);
+				continue;
+			}
+
+			frames.push({ time: getImageCaptureTime(frame), objectName: frame.objectName });
+		}
+	}
+
+	if (frames.length < DEFAULT_MIN_FRAMES) {
+		return {
+			success: false,
+			message: `Insufficient images: found ${frames.length} days with an image near the anchor, required minimum ${DEFAULT_MIN_FRAMES}`
+		};
+	}
+
+	const animation: AnimationQueueEntry = {
+		id: 0,
+		webcam_id: webcam.id,
+		reference_id: referenceId,
+		gif_type: SEASONAL_ANIMATION_TYPE,
+		scheduled_time: new Date().toISOString(),
+		date_key: endDate,
+		image_list: frames.map(frame => frame.objectName),
+		status: 'pending',
+		created_at: new Date().toISOString(),
+		processed_at: null,
+		error_message: null,
+		start_time: frames[0].time,
+		end_time: frames[frames.length - 1].time,
+		gif_storage_key: generateAnimationStorageKey(
+			webcam.nationalPark || 'unknown',
+			webcam.name,
+			SEASONAL_ANIMATION_TYPE,
+			dateStamp,
+			anchorLabel),
+		solar_fallback: null
+	};
+
+	const created = await repo.animationQueue.addAnimationToQueue(animation);
+	if (!created) {
+		return { success: false, message: `Failed to write animation to db : ${animation.reference_id}` };
+	}
+
+	console.log(`${webcam.name}: Scheduled a seasonal animation with ${frames.length} frames from ${startDate} to ${endDate}`);
+	return { success: true, message: 'Seasonal animation created', item: created };
+}
@@ -1,4 +1,8 @@
 import { IRepository } from "@/db/repositories";
+import type { WebcamDto } from "@/db/schema";
+import type { CacheValidators } from "@/logic/webcam";
+import type { RequestSecrets } from "@/logic/request-profile";
+import type { HostLimiter } from "@/logic/capture-planner";
 
 // Environment interface for Cloudflare Worker
 export interface Env {
@@ -36,6 +40,8 @@ export interface AnimationQueueEntry {
 	start_time: number;
 	end_time: number;
 	gif_storage_key: string | null; // S3 key for uploaded GIF
+	solar_fallback: SolarFallback | null; // Set when the window could not use the days solar times
+	fps?: number | null; // Frame rate requested for on demand animations, other animations use their profile
 }
 
 export interface RetentionPolicy
@@ -45,15 +51,128 @@ export interface RetentionPolicy
 	apply(repo: IRepository, start: number, end: number): Promise<void>;
 }
 
-// GIF types for queue entries
-export type AnimationType = 'hourly' | 'sunrise' | 'sunset' | 'full_day';
+// How the current image for a webcam is found, push webcams upload their images to POST /webcams/:id/images
+export type WebcamSourceType = 'direct_url' | 'url_template' | 'json_pointer' | 'push';
+
+// Source specific settings stored in webcams.source_config
+export interface WebcamSourceConfig {
+	urlTemplate?: string;       // url_template: image url with luxon date tokens in braces, i.e. https://cam/{yyyyMMdd}/{HHmm}.jpg
+	stepMinutes?: number;       // url_template: minutes between published images, the time is rounded down to this step
+	lookbackSteps?: number;     // url_template: number of earlier steps to try when the latest image is not published yet
+	imagePointer?: string;      // json_pointer: RFC 6901 pointer to the image url in the response from webcams.url
+	timestampPointer?: string;  // json_pointer: RFC 6901 pointer to the image time in the response from webcams.url
+}
+
+// Headers and authentication sent with every request for a webcam, stored in webcams.request_profile.
+// Credentials are never stored in D1, the profile names the Worker secrets (WEBCAM_SECRET_*) that hold them.
+export interface WebcamRequestProfile {
+	headers?: Record<string, string>;         // Plain headers, i.e. User-Agent and Referer
+	secretHeaders?: Record<string, string>;   // Header name to the secret holding its value, i.e. X-Api-Key
+	auth?: WebcamRequestAuth | null;
+}
+
+export type WebcamRequestAuth =
+	| { scheme: 'basic', usernameSecret: string, passwordSecret: string }
+	| { scheme: 'bearer', tokenSecret: string };
+
+// Image resolved by a webcam source adapter
+export interface SourceImage {
+	imageUrl: string;
+	notModified: boolean;           // The origin answered the conditional request with a 304
+	imageData: ArrayBuffer | null;
+	contentType: string;
+	sourceTimestamp: number | null; // Time the image was taken according to the source (milliseconds)
+	cacheValidators: CacheValidators;
+}
+
+export interface WebcamSourceAdapter
+{
+	type: WebcamSourceType;
+
+	resolve(webcam: WebcamDto, currentTime: number, secrets?: RequestSecrets, hostLimiter?: HostLimiter | null): Promise<SourceImage>;
+}
+
+// Rectangle in image pixels
+export interface ImageRegion {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+// Per webcam adjustments applied before images are analysed and rendered.
+// Masks and the crop are in pixels of the original image, masks are filled with black, then the image is
+// cropped and finally rotated clockwise.
+export interface ImagePreset {
+	crop?: ImageRegion | null;
+	masks?: ImageRegion[];
+	rotation?: 0 | 90 | 180 | 270;
+}
+
+// Twilight that first and last light are taken from, stored in webcams.twilight_type
+export type TwilightType = 'civil' | 'nautical' | 'astronomical';
+
+// Angle of the horizon seen by a camera above the true horizon at a compass azimuth (0 is north, 90 is east),
+// stored in webcams.horizon_profile. Angles between points are interpolated.
+export interface HorizonPoint {
+	azimuth: number;
+	elevation: number;
+}
+
+// Days at high latitudes when the sun does not rise or set
+export type PolarCondition = 'midnight_sun' | 'polar_night';
+
+// Why an animation window was not taken from the days sunrise, sunset and twilight times
+// - midnight_sun: the sun does not set, the window is the whole local day
+// - polar_night: the sun does not rise, the window is civil twilight around solar noon
+// - twilight_all_night: the sun sets but the sky does not get dark enough for first or last light, the window
+//   starts or ends at the darkest point of the night
+export type SolarFallback = PolarCondition | 'twilight_all_night';
+
+// Capture intervals for parts of the solar day, stored in webcams.capture_cadence.
+// Intervals that are not set use webcams.interval_minutes.
+export interface CaptureCadenceProfile {
+	twilightIntervalMinutes?: number | null;  // Between firstLight and sunrise and between sunset and lastLight
+	noonIntervalMinutes?: number | null;      // Around solar noon
+	noonWindowMinutes?: number | null;        // Minutes either side of solar noon that use noonIntervalMinutes
+}
+
+// Part of the solar day that decided a webcams capture interval
+export type CaptureCadencePhase = 'base' | 'twilight' | 'solar_noon';
+
+// GIF types for queue entries, the name of the animation profile the entry was created from (see animation_profiles).
+// The profiles created by the migrations are hourly, sunrise, sunset, full_day and sun_in_frame.
+export type AnimationType = string;
+
+// Solar events an animation profile window can start or end at, calculated for each webcam and day
+// - light_start and light_end are the webcams light window, including the polar day and night fallbacks
+// - sunrise_end and sunset_start are a quarter of the twilight duration after sunrise and before sunset
+// - sun_in_frame_start and sun_in_frame_end are the longest time the sun is in the cameras frame
+// - golden_hour_end and golden_hour_start are when the sun is 6° above the horizon in the morning and evening
+// - civil_dusk is when the sun is 6° below the horizon in the evening, the end of the blue hour
+// - moonrise and moonset are the first moonrise of the day and the moonset after it, which can be the next day
+export type SolarEventName = 'light_start' | 'first_light' | 'sunrise' | 'sunrise_end' | 'golden_hour_end' | 'solar_noon'
+	| 'golden_hour_start' | 'sunset_start' | 'sunset' | 'civil_dusk' | 'last_light' | 'light_end'
+	| 'sun_in_frame_start' | 'sun_in_frame_end' | 'moonrise' | 'moonset';
+
+// Start or end of an animation profile window, relative to a solar event or a local clock time (HH:mm in the webcams timezone)
+export type AnimationWindowBoundary =
+	| { event: SolarEventName, offsetMinutes?: number }
+	| { clockTime: string, offsetMinutes?: number };
+
+// Half of the day a camera must see the sun in for a profile to apply, cameras without a heading always apply
+export type SunInFrameRequirement = 'morning' | 'evening';
 
 // GIF processing status
 export type AnimationStatus = 'waiting_for_images' | 'pending' | 'processing' | 'completed' | 'failed';
 
 
 // Activity types for logging
-export type ActivityType = 'image_captured' | 'image_skipped' | 'error';
+export type ActivityType = 'image_captured' | 'image_skipped' | 'image_not_modified' | 'image_rejected' | 'error';
 
 // Error types for categorization
-export type ErrorType = 'processing_error' | 'gif_error' | 'database_error' | 'network_error';
+export type ErrorType = 'processing_error' | 'gif_error' | 'database_error' | 'network_error' | 'stale_feed'
+	| 'fetch_timeout' | 'image_too_large' | 'invalid_content_type' | 'invalid_image_data' | 'rate_limited';
+
+// Health states for a webcam feed
+export type WebcamHealthState = 'healthy' | 'stale' | 'backoff' | 'suspended';
@@ -0,0 +1,55 @@
+// Shared webcam fixture for unit tests
+import type { WebcamDto } from '../../src/db/schema';
+
+/**
+ * Create a webcam for a test, a direct url webcam in Denver with every optional setting unset unless overridden
+ */
+export function createTestWebcam(overrides: Partial<WebcamDto> = {}): WebcamDto {
+  return {
+    id: 1,
+    name: 'denver-cam',
+    url: 'http://example.com/denver.jpg',
+    sourceType: 'direct_url',
+    sourceConfig: null,
+    requestProfile: null,
+    fallbackUrls: null,
+    enabled: true,
+    intervalMinutes: 5,
+    captureCadence: null,
+    displayName: 'Denver Test Cam',
+    latLon: '39.7392,-104.9903',
+    nationalPark: 'Rocky Mountain',
+    timezone: 'America/Denver',
+    twilightType: null,
+    lightWindowSunElevation: null,
+    elevationMeters: null,
+    horizonProfile: null,
+    headingDegrees: null,
+    horizontalFovDegrees: null,
+    nightModeMinIllumination: null,
+    lastImageHash: null,
+    lastEtag: null,
+    lastModified: null,
+    lastPerceptualHash: null,
+    perceptualHashThreshold: null,
+    healthState: 'healthy',
+    unchangedDaylightMinutes: 0,
+    unchangedCheckedAt: null,
+    staleThresholdMinutes: 60,
+    minMeanLuminance: null,
+    placeholderImageHashes: null,
+    consecutiveFailures: 0,
+    nextAttemptAt: null,
+    suspendAfterFailures: 10,
+    sourceTimezone: null,
+    sourceTimeWindowMinutes: 30,
+    imagePreset: null,
+    fetchTimeoutMs: null,
+    maxImageBytes: null,
+    lastActiveAt: null,
+    createdAt: null,
+    updatedAt: null,
+    location: null,
+    ...overrides
+  };
+}
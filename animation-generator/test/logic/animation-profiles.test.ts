@@ -0,0 +1,148 @@
+// Unit tests for animation profile windows
+
+import { describe, it, expect } from 'vitest';
+import { calculateSolarDay, getProfileWindows, profileAppliesToWebcam, resolveWindowBoundary } from '../../src/logic/animation-profiles';
+import { hasMinimumImages } from '../../src/logic/animations';
+import type { AnimationProfile } from '../../src/db/schema';
+import { createTestWebcam } from '../helpers/webcam';
+
+describe('Animation Profiles', () => {
+  const webcam = createTestWebcam({ latLon: '39.740,-104.975' });
+
+  const createProfile = (profile: Partial<AnimationProfile>): AnimationProfile => ({
+    id: 1,
+    name: 'test',
+    enabled: true,
+    windowStart: { event: 'light_start' },
+    windowEnd: { event: 'light_end' },
+    repeatHourly: false,
+    frameCount: 100,
+    fps: 15,
+    minFrames: 3,
+    webcamIds: null,
+    requireSunInFrame: null,
+    includeOnPolarDays: false,
+    requireMoonlight: false,
+    createdAt: null,
+    updatedAt: null,
+    ...profile
+  });
+
+  // Start of 2025-09-24 in Denver
+  const startOfDay = new Date('2025-09-24T03:00:00-06:00').getTime();
+  const solarDay = calculateSolarDay(webcam, '2025-09-24', startOfDay)!;
+
+  describe('calculateSolarDay', () => {
+    it('orders the solar events through the day', () => {
+      const { light_start, first_light, sunrise, sunrise_end, solar_noon, sunset_start, sunset, last_light, light_end } = solarDay.events;
+
+      expect([light_start, first_light, sunrise, sunrise_end, solar_noon, sunset_start, sunset, last_light, light_end])
+        .toEqual([light_start, first_light, sunrise, sunrise_end, solar_noon, sunset_start, sunset, last_light, light_end].sort((a, b) => a - b));
+      expect(solarDay.solarFallback).toBeNull();
+    });
+
+    it('has no sun in frame events without a camera heading', () => {
+      expect(solarDay.events.sun_in_frame_start).toBeNaN();
+      expect(solarDay.events.sun_in_frame_end).toBeNaN();
+      expect(solarDay.sunriseInFrame).toBe(true);
+      expect(solarDay.sunsetInFrame).toBe(true);
+    });
+  });
+
+  describe('resolveWindowBoundary', () => {
+    it('applies the offset to a solar event', () => {
+      const boundary = resolveWindowBoundary({ event: 'sunset', offsetMinutes: -30 }, solarDay, '2025-09-24', 'America/Denver');
+
+      expect(boundary).toBe(solarDay.events.sunset - 30 * 60 * 1000);
+    });
+
+    it('resolves clock times in the webcams timezone', () => {
+      const boundary = resolveWindowBoundary({ clockTime: '12:00' }, solarDay, '2025-09-24', 'America/Denver');
+
+      expect(boundary).toBe(new Date('2025-09-24T12:00:00-06:00').getTime());
+    });
+
+    it('returns NaN for an invalid clock time', () => {
+      expect(resolveWindowBoundary({ clockTime: '25:00' }, solarDay, '2025-09-24', 'America/Denver')).toBeNaN();
+    });
+  });
+
+  describe('getProfileWindows', () => {
+    it('creates a single window between the boundaries', () => {
+      const profile = createProfile({ windowStart: { clockTime: '11:00' }, windowEnd: { clockTime: '13:30' } });
+
+      expect(getProfileWindows(profile, solarDay, '2025-09-24', 'America/Denver')).toEqual([{
+        start: new Date('2025-09-24T11:00:00-06:00').getTime(),
+        end: new Date('2025-09-24T13:30:00-06:00').getTime()
+      }]);
+    });
+
+    it('creates a window for each whole hour when repeating hourly', () => {
+      const profile = createProfile({ windowStart: { clockTime: '10:30' }, windowEnd: { clockTime: '13:30' }, repeatHourly: true });
+      const windows = getProfileWindows(profile, solarDay, '2025-09-24', 'America/Denver');
+
+      expect(windows.map(window => new Date(window.start).toISOString())).toEqual([
+        '2025-09-24T17:00:00.000Z',
+        '2025-09-24T18:00:00.000Z'
+      ]);
+    });
+
+    it('skips windows that end before they start or use an event that does not happen', () => {
+      const reversed = createProfile({ windowStart: { event: 'sunset' }, windowEnd: { event: 'sunrise' } });
+      const sunInFrame = createProfile({ windowStart: { event: 'sun_in_frame_start' }, windowEnd: { event: 'sun_in_frame_end' } });
+
+      expect(getProfileWindows(reversed, solarDay, '2025-09-24', 'America/Denver')).toEqual([]);
+      expect(getProfileWindows(sunInFrame, solarDay, '2025-09-24', 'America/Denver')).toEqual([]);
+    });
+  });
+
+  describe('profileAppliesToWebcam', () => {
+    it('only applies to the listed webcams', () => {
+      expect(profileAppliesToWebcam(createProfile({ webcamIds: [1, 2] }), webcam, solarDay)).toBe(true);
+      expect(profileAppliesToWebcam(createProfile({ webcamIds: [2] }), webcam, solarDay)).toBe(false);
+    });
+
+    it('requires the sun in frame for the required half of the day', () => {
+      const eastFacing = { ...solarDay, sunsetInFrame: false };
+
+      expect(profileAppliesToWebcam(createProfile({ requireSunInFrame: 'morning' }), webcam, eastFacing)).toBe(true);
+      expect(profileAppliesToWebcam(createProfile({ requireSunInFrame: 'evening' }), webcam, eastFacing)).toBe(false);
+    });
+
+    it('only applies on polar days when the profile includes them', () => {
+      const polarDay = { ...solarDay, solarFallback: 'midnight_sun' as const };
+
+      expect(profileAppliesToWebcam(createProfile({}), webcam, polarDay)).toBe(false);
+      expect(profileAppliesToWebcam(createProfile({ includeOnPolarDays: true }), webcam, polarDay)).toBe(true);
+    });
+  });
+
+  describe('moonlight', () => {
+    // Full moon on the night of 2025-10-06 in Denver
+    const fullMoonDay = calculateSolarDay(webcam, '2025-10-06', new Date('2025-10-06T00:00:00-06:00').getTime())!;
+    const nightModeWebcam = { ...webcam, nightModeMinIllumination: 0.9 };
+
+    it('has a moonrise in the evening and a moonset the next morning', () => {
+      expect(fullMoonDay.events.moonrise).toBeGreaterThan(fullMoonDay.events.sunset - 60 * 60 * 1000);
+      expect(fullMoonDay.events.moonset).toBeGreaterThan(new Date('2025-10-07T00:00:00-06:00').getTime());
+      expect(fullMoonDay.moonIllumination).toBeGreaterThan(0.95);
+    });
+
+    it('only applies profiles that require moonlight to webcams in night mode on bright nights', () => {
+      const profile = createProfile({ requireMoonlight: true });
+
+      expect(profileAppliesToWebcam(profile, nightModeWebcam, fullMoonDay)).toBe(true);
+      expect(profileAppliesToWebcam(profile, webcam, fullMoonDay)).toBe(false);
+      expect(profileAppliesToWebcam(profile, nightModeWebcam, { ...fullMoonDay, moonIllumination: 0.5 })).toBe(false);
+    });
+  });
+
+  describe('hasMinimumImages', () => {
+    it('uses the profile minimum, or 3 frames without a profile', () => {
+      expect(hasMinimumImages(createProfile({ minFrames: 10 }), 9)).toBe(false);
+      expect(hasMinimumImages(createProfile({ minFrames: 10 }), 10)).toBe(true);
+      expect(hasMinimumImages(undefined, 3)).toBe(true);
+      expect(hasMinimumImages(undefined, 2)).toBe(false);
+    });
+  });
+});
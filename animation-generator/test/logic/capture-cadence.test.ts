@@ -0,0 +1,78 @@
+// Unit tests for adaptive capture cadence
+
+import { describe, it, expect } from 'vitest';
+import { describeCaptureCadence, getCaptureCadence } from '../../src/logic/capture-cadence';
+import { isWebcamInMinuteSlot, planCaptureCycle, DEFAULT_CAPTURE_PLANNER_OPTIONS } from '../../src/logic/capture-planner';
+import { calculateWebcamSolarTimes } from '../../src/logic/solar-calculations';
+import type { WebcamDto } from '../../src/db/schema';
+import { createTestWebcam } from '../helpers/webcam';
+
+describe('Capture Cadence', () => {
+  const webcam = createTestWebcam();
+
+  const adaptiveWebcam: WebcamDto = {
+    ...webcam,
+    captureCadence: { twilightIntervalMinutes: 1, noonIntervalMinutes: 15, noonWindowMinutes: 60 }
+  };
+
+  const solarTimes = calculateWebcamSolarTimes(webcam.latLon, new Date('2025-09-24T18:00:00Z').getTime())!;
+  const solarNoon = solarTimes.sunrise + (solarTimes.sunset - solarTimes.sunrise) / 2;
+  const minutes = (count: number) => count * 60 * 1000;
+
+  describe('getCaptureCadence', () => {
+    it('should capture more often between first light and sunrise', () => {
+      const cadence = getCaptureCadence(adaptiveWebcam, solarTimes.sunrise - minutes(10));
+      expect(cadence).toEqual({ intervalMinutes: 1, phase: 'twilight' });
+    });
+
+    it('should capture more often between sunset and last light', () => {
+      const cadence = getCaptureCadence(adaptiveWebcam, solarTimes.sunset + minutes(10));
+      expect(cadence).toEqual({ intervalMinutes: 1, phase: 'twilight' });
+    });
+
+    it('should capture less often around solar noon', () => {
+      expect(getCaptureCadence(adaptiveWebcam, solarNoon + minutes(30))).toEqual({ intervalMinutes: 15, phase: 'solar_noon' });
+      expect(getCaptureCadence(adaptiveWebcam, solarNoon - minutes(90))).toEqual({ intervalMinutes: 5, phase: 'base' });
+    });
+
+    it('should use the webcam interval without a profile or location', () => {
+      expect(getCaptureCadence(webcam, solarTimes.sunrise - minutes(10))).toEqual({ intervalMinutes: 5, phase: 'base' });
+      expect(getCaptureCadence({ ...adaptiveWebcam, latLon: null }, solarTimes.sunrise - minutes(10)))
+        .toEqual({ intervalMinutes: 5, phase: 'base' });
+    });
+
+    it('should use the webcam interval for phases the profile does not set', () => {
+      const twilightOnly = { ...webcam, captureCadence: { twilightIntervalMinutes: 2 } };
+      expect(getCaptureCadence(twilightOnly, solarNoon)).toEqual({ intervalMinutes: 5, phase: 'base' });
+    });
+  });
+
+  describe('describeCaptureCadence', () => {
+    it('should describe the phase and interval', () => {
+      expect(describeCaptureCadence({ intervalMinutes: 15, phase: 'solar_noon' })).toBe('solar noon cadence, every 15 min');
+      expect(describeCaptureCadence({ intervalMinutes: 5, phase: 'base' })).toBe('base cadence, every 5 min');
+    });
+  });
+
+  describe('planCaptureCycle', () => {
+    it('should plan a webcam in every slot during twilight', () => {
+      const twilightStart = Math.ceil((solarTimes.sunrise - minutes(30)) / minutes(1)) * minutes(1);
+      const planned = [0, 1, 2, 3, 4].filter(offset =>
+        planCaptureCycle([adaptiveWebcam], twilightStart + minutes(offset), DEFAULT_CAPTURE_PLANNER_OPTIONS).webcams.length === 1
+      );
+
+      expect(planned).toHaveLength(5);
+    });
+
+    it('should plan a webcam once per noon interval around solar noon', () => {
+      const noonStart = Math.ceil((solarNoon - minutes(30)) / minutes(1)) * minutes(1);
+      const slots = Array.from({ length: 15 }, (_, offset) => noonStart + minutes(offset));
+      const planned = slots.filter(time =>
+        planCaptureCycle([adaptiveWebcam], time, DEFAULT_CAPTURE_PLANNER_OPTIONS).webcams.length === 1
+      );
+
+      expect(planned).toHaveLength(1);
+      expect(isWebcamInMinuteSlot(adaptiveWebcam, Math.floor(planned[0] / minutes(1)), 15)).toBe(true);
+    });
+  });
+});
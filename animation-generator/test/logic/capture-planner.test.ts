@@ -0,0 +1,230 @@
+// Unit tests for capture cycle planning
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CAPTURE_PLANNER_OPTIONS,
+  DEFAULT_HOST_LIMIT,
+  getCapturePlannerOptions,
+  getHostLimits,
+  getWebcamHost,
+  HostBusyError,
+  HostLimiter,
+  isWebcamInMinuteSlot,
+  MAX_HOST_WAIT_MS,
+  planCaptureCycle,
+  runWithConcurrencyLimit
+} from '../../src/logic/capture-planner';
+import type { WebcamDto } from '../../src/db/schema';
+import { createTestWebcam } from '../helpers/webcam';
+
+describe('Capture Planner', () => {
+  const webcam = createTestWebcam();
+
+  const createWebcams = (count: number, intervalMinutes: number): WebcamDto[] =>
+    Array.from({ length: count }, (_, i) => ({ ...webcam, id: i + 1, name: `cam-${i + 1}`, intervalMinutes }));
+
+  const currentTime = new Date('2025-09-24T18:07:00Z').getTime();
+  const minuteSlot = Math.floor(currentTime / 60000);
+
+  describe('isWebcamInMinuteSlot', () => {
+    it('should place a webcam in one slot per interval', () => {
+      const slots = [0, 1, 2, 3, 4, 5, 6].filter(offset => isWebcamInMinuteSlot({ ...webcam, id: 7 }, minuteSlot + offset));
+      expect(slots).toHaveLength(2);
+      expect(slots[1] - slots[0]).toBe(5);
+    });
+
+    it('should place a webcam with a one minute interval in every slot', () => {
+      expect(isWebcamInMinuteSlot({ ...webcam, intervalMinutes: 1 }, minuteSlot)).toBe(true);
+      expect(isWebcamInMinuteSlot({ ...webcam, intervalMinutes: 1 }, minuteSlot + 1)).toBe(true);
+    });
+  });
+
+  describe('planCaptureCycle', () => {
+    it('should spread webcams evenly across the minutes of their interval', () => {
+      const webcams = createWebcams(50, 5);
+
+      for (let offset = 0; offset < 5; offset++) {
+        const plan = planCaptureCycle(webcams, currentTime + offset * 60000, DEFAULT_CAPTURE_PLANNER_OPTIONS);
+        expect(plan.webcams).toHaveLength(10);
+        expect(plan.deferred).toHaveLength(0);
+      }
+    });
+
+    it('should plan every webcam exactly once over an interval', () => {
+      const webcams = createWebcams(23, 5);
+      const planned = [0, 1, 2, 3, 4].flatMap(offset =>
+        planCaptureCycle(webcams, currentTime + offset * 60000, DEFAULT_CAPTURE_PLANNER_OPTIONS).webcams.map(w => w.id)
+      );
+
+      expect(planned.sort((a, b) => a - b)).toEqual(webcams.map(w => w.id));
+    });
+
+    it('should defer webcams over the per cycle cap, keeping those captured longest ago', () => {
+      const webcams = createWebcams(4, 1).map((w, i) => ({
+        ...w,
+        lastActiveAt: i === 0 ? null : new Date(currentTime - i * 60000).toISOString()
+      }));
+
+      const plan = planCaptureCycle(webcams, currentTime, { ...DEFAULT_CAPTURE_PLANNER_OPTIONS, maxWebcamsPerCycle: 2 });
+
+      expect(plan.minuteSlot).toBe(minuteSlot);
+      expect(plan.webcams.map(w => w.id)).toEqual([1, 4]);
+      expect(plan.deferred.map(w => w.id)).toEqual([3, 2]);
+    });
+
+    it('should never plan push webcams', () => {
+      const webcams = createWebcams(2, 1).map((w, i) => ({ ...w, sourceType: i === 0 ? 'push' as const : 'direct_url' as const }));
+
+      const plan = planCaptureCycle(webcams, currentTime, DEFAULT_CAPTURE_PLANNER_OPTIONS);
+
+      expect(plan.webcams.map(w => w.id)).toEqual([2]);
+      expect(plan.deferred).toHaveLength(0);
+    });
+
+    it('should defer webcams on a host that asked us to back off', () => {
+      const webcams = createWebcams(3, 1).map((w, i) => ({ ...w, url: i === 0 ? 'http://other.test/cam.jpg' : `http://busy.test/cam-${i}.jpg` }));
+      const hostLimits = new Map([['busy.test', { ...DEFAULT_HOST_LIMIT, nextAllowedAt: currentTime + 60000 }]]);
+
+      const plan = planCaptureCycle(webcams, currentTime, DEFAULT_CAPTURE_PLANNER_OPTIONS, hostLimits);
+
+      expect(plan.webcams.map(w => w.id)).toEqual([1]);
+      expect(plan.deferred.map(w => w.id)).toEqual([2, 3]);
+    });
+  });
+
+  describe('getWebcamHost', () => {
+    it('should use the host of the webcam url or url template', () => {
+      expect(getWebcamHost({ ...webcam, url: 'https://WWW.NPS.gov/webcams/cam.jpg' })).toBe('www.nps.gov');
+      expect(getWebcamHost({
+        ...webcam,
+        sourceType: 'url_template',
+        sourceConfig: { urlTemplate: 'https://archive.test:8080/{yyyy}/{HHmm}.jpg' }
+      })).toBe('archive.test:8080');
+    });
+  });
+
+  describe('getHostLimits', () => {
+    it('should fill unset limits with the defaults', () => {
+      const limits = getHostLimits([
+        { id: 1, host: 'www.nps.gov', maxConcurrency: 1, minSpacingMs: null, nextAllowedAt: '2025-09-24T18:10:00.000Z', updatedAt: null }
+      ]);
+
+      expect(limits.get('www.nps.gov')).toEqual({
+        maxConcurrency: 1,
+        minSpacingMs: DEFAULT_HOST_LIMIT.minSpacingMs,
+        nextAllowedAt: new Date('2025-09-24T18:10:00Z').getTime()
+      });
+    });
+  });
+
+  describe('HostLimiter', () => {
+    const limiter = () => new HostLimiter(new Map([['nps.test', { maxConcurrency: 2, minSpacingMs: 1000, nextAllowedAt: null }]]));
+
+    it('should space out fetches to the same host', () => {
+      const hosts = limiter();
+      expect(hosts.getDelay('nps.test', currentTime)).toBe(0);
+
+      hosts.start('nps.test', currentTime);
+      expect(hosts.getDelay('nps.test', currentTime + 400)).toBe(600);
+      expect(hosts.getDelay('other.test', currentTime + 400)).toBe(0);
+      expect(hosts.getDelay('nps.test', currentTime + 1000)).toBe(0);
+    });
+
+    it('should limit concurrent fetches to the same host', () => {
+      const hosts = limiter();
+      hosts.start('nps.test', currentTime);
+      hosts.start('nps.test', currentTime + 1000);
+      expect(hosts.getDelay('nps.test', currentTime + 5000)).toBeGreaterThan(0);
+
+      hosts.finish('nps.test');
+      expect(hosts.getDelay('nps.test', currentTime + 5000)).toBe(0);
+    });
+
+    it('should hold off a deferred host until the retry time', () => {
+      const hosts = limiter();
+      hosts.defer('nps.test', currentTime + 30000);
+      expect(hosts.getDelay('nps.test', currentTime)).toBe(30000);
+
+      // A shorter retry does not bring the host back early
+      hosts.defer('nps.test', currentTime + 10000);
+      expect(hosts.getDelay('nps.test', currentTime)).toBe(30000);
+    });
+
+    it('should wait for the host to allow a fetch before acquiring it', async () => {
+      const hosts = new HostLimiter(new Map([['a.test', { maxConcurrency: 1, minSpacingMs: 30, nextAllowedAt: null }]]));
+
+      await hosts.acquire('a.test');
+      const firstAcquiredAt = Date.now();
+      hosts.finish('a.test');
+
+      // Other hosts are not held up
+      await hosts.acquire('b.test');
+      expect(Date.now() - firstAcquiredAt).toBeLessThan(25);
+
+      await hosts.acquire('a.test');
+      expect(Date.now() - firstAcquiredAt).toBeGreaterThanOrEqual(25);
+    });
+
+    it('should throw a HostBusyError when the host is backed off past the wait limit', async () => {
+      const hosts = new HostLimiter(new Map([['a.test', { ...DEFAULT_HOST_LIMIT, nextAllowedAt: Date.now() + MAX_HOST_WAIT_MS + 60000 }]]));
+
+      await expect(hosts.acquire('a.test')).rejects.toBeInstanceOf(HostBusyError);
+      expect(hosts.getDelay('b.test', Date.now())).toBe(0);
+    });
+  });
+
+  describe('runWithConcurrencyLimit', () => {
+    it('should never run more than the concurrency limit at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const result = await runWithConcurrencyLimit([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+      expect(result).toEqual({ successful: 7, failed: 0, notStarted: 0 });
+    });
+
+    it('should count failed items without stopping the others', async () => {
+      const result = await runWithConcurrencyLimit([1, 2, 3], 2, async (item) => {
+        if (item === 2) {
+          throw new Error('capture failed');
+        }
+      });
+
+      expect(result).toEqual({ successful: 2, failed: 1, notStarted: 0 });
+    });
+
+    it('should stop starting items once canStart returns false', async () => {
+      const started: number[] = [];
+
+      const result = await runWithConcurrencyLimit([1, 2, 3, 4, 5], 1, async (item) => {
+        started.push(item);
+      }, () => started.length < 2);
+
+      expect(started).toEqual([1, 2]);
+      expect(result).toEqual({ successful: 2, failed: 0, notStarted: 3 });
+    });
+  });
+
+  describe('getCapturePlannerOptions', () => {
+    it('should read the options from the environment', () => {
+      const options = getCapturePlannerOptions({
+        CAPTURE_MAX_WEBCAMS_PER_CYCLE: '10',
+        CAPTURE_CONCURRENCY: '2',
+        CAPTURE_CYCLE_BUDGET_MS: '5000'
+      } as Env);
+
+      expect(options).toEqual({ maxWebcamsPerCycle: 10, concurrency: 2, cycleTimeBudgetMs: 5000 });
+    });
+
+    it('should fall back to the defaults for missing or invalid values', () => {
+      const options = getCapturePlannerOptions({ CAPTURE_CONCURRENCY: 'lots' } as Env);
+      expect(options).toEqual(DEFAULT_CAPTURE_PLANNER_OPTIONS);
+    });
+  });
+});
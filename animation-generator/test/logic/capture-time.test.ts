@@ -0,0 +1,82 @@
+// Unit tests for resolving when a captured image was taken
+
+import { describe, it, expect } from 'vitest';
+import { parseExifDateTime, resolveCaptureTime } from '../../src/logic/capture-time';
+import { createTestWebcam } from '../helpers/webcam';
+
+describe('Capture Time', () => {
+  const webcam = createTestWebcam();
+
+  // 12:10 in Denver (MDT)
+  const fetchedAt = new Date('2025-09-24T18:10:00Z').getTime();
+  const noCandidates = { sourceTimestamp: null, exif: null, lastModified: null };
+
+  describe('resolveCaptureTime', () => {
+    it('should use the fetch time when the source reports no time', () => {
+      expect(resolveCaptureTime(webcam, noCandidates, fetchedAt)).toEqual({ timestamp: fetchedAt, source: 'fetch' });
+    });
+
+    it('should use the last modified header', () => {
+      const result = resolveCaptureTime(webcam, { ...noCandidates, lastModified: 'Wed, 24 Sep 2025 18:08:30 GMT' }, fetchedAt);
+      expect(result).toEqual({ timestamp: new Date('2025-09-24T18:08:30Z').getTime(), source: 'last_modified' });
+    });
+
+    it('should prefer the exif capture time read in the webcams timezone', () => {
+      const result = resolveCaptureTime(webcam, {
+        ...noCandidates,
+        exif: { dateTime: '2025:09:24 12:07:00', offset: null },
+        lastModified: 'Wed, 24 Sep 2025 18:08:30 GMT'
+      }, fetchedAt);
+
+      expect(result).toEqual({ timestamp: new Date('2025-09-24T18:07:00Z').getTime(), source: 'exif' });
+    });
+
+    it('should read the exif capture time in the source timezone when set', () => {
+      const result = resolveCaptureTime({ ...webcam, sourceTimezone: 'UTC' }, {
+        ...noCandidates,
+        exif: { dateTime: '2025:09:24 18:07:00', offset: null }
+      }, fetchedAt);
+
+      expect(result.source).toBe('exif');
+      expect(result.timestamp).toBe(new Date('2025-09-24T18:07:00Z').getTime());
+    });
+
+    it('should prefer the time reported by the source adapter', () => {
+      const sourceTimestamp = new Date('2025-09-24T18:05:00Z').getTime();
+      const result = resolveCaptureTime(webcam, {
+        sourceTimestamp,
+        exif: { dateTime: '2025:09:24 12:07:00', offset: null },
+        lastModified: null
+      }, fetchedAt);
+
+      expect(result).toEqual({ timestamp: sourceTimestamp, source: 'source' });
+    });
+
+    it('should ignore times outside of the sanity window', () => {
+      const result = resolveCaptureTime(webcam, {
+        sourceTimestamp: new Date('2025-09-24T18:30:00Z').getTime(), // In the future
+        exif: { dateTime: '2020:01:01 00:00:00', offset: null },     // Camera clock never set
+        lastModified: 'Wed, 24 Sep 2025 16:00:00 GMT'                // Hours old
+      }, fetchedAt);
+
+      expect(result).toEqual({ timestamp: fetchedAt, source: 'fetch' });
+    });
+
+    it('should use the webcams sanity window', () => {
+      const candidates = { ...noCandidates, lastModified: 'Wed, 24 Sep 2025 17:30:00 GMT' };
+
+      expect(resolveCaptureTime(webcam, candidates, fetchedAt).source).toBe('fetch');
+      expect(resolveCaptureTime({ ...webcam, sourceTimeWindowMinutes: 60 }, candidates, fetchedAt).source).toBe('last_modified');
+    });
+  });
+
+  describe('parseExifDateTime', () => {
+    it('should use the offset recorded by the camera over the timezone', () => {
+      expect(parseExifDateTime('2025:09:24 12:07:00', '-06:00', 'UTC')).toBe(new Date('2025-09-24T18:07:00Z').getTime());
+    });
+
+    it('should return null for an invalid date time', () => {
+      expect(parseExifDateTime('0000:00:00 00:00:00', null, 'UTC')).toBeNull();
+    });
+  });
+});
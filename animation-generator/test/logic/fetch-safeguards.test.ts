@@ -0,0 +1,174 @@
+// Unit tests for webcam fetch safeguards
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createResponseError,
+  fetchWithTimeout,
+  parseRetryAfter,
+  readBodyWithLimit,
+  readStreamWithLimit,
+  sniffImageType,
+  validateImageContent,
+  DEFAULT_MAX_IMAGE_BYTES,
+  MAX_RETRY_AFTER_MS,
+  WebcamFetchError
+} from '../../src/logic/fetch-safeguards';
+import { createTestWebcam } from '../helpers/webcam';
+
+const jpegBytes = new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10, 0xFF, 0xD9]);
+const pngBytes = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x00]);
+const webpBytes = new Uint8Array([0x52, 0x49, 0x46, 0x46, 0x24, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50, 0x56, 0x50]);
+const htmlBytes = new Uint8Array(new TextEncoder().encode('<!DOCTYPE html><html>Camera offline</html>'));
+
+/**
+ * Create a streamed response that sends the given number of chunks of chunkSize bytes, recording how many were pulled
+ */
+function createStreamedResponse(chunks: number, chunkSize: number, headers: Record<string, string> = {}) {
+  const state = { pulled: 0, cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (state.pulled === chunks) {
+        controller.close();
+        return;
+      }
+      state.pulled++;
+      controller.enqueue(new Uint8Array(chunkSize));
+    },
+    cancel() {
+      state.cancelled = true;
+    }
+  });
+
+  return { response: new Response(body, { headers }), state };
+}
+
+describe('Fetch Safeguards', () => {
+  const webcam = createTestWebcam();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('sniffImageType', () => {
+    it('should identify JPEG, PNG and WebP images from their magic bytes', () => {
+      expect(sniffImageType(jpegBytes.buffer)).toBe('image/jpeg');
+      expect(sniffImageType(pngBytes.buffer)).toBe('image/png');
+      expect(sniffImageType(webpBytes.buffer)).toBe('image/webp');
+    });
+
+    it('should return null for other data', () => {
+      expect(sniffImageType(htmlBytes.buffer)).toBeNull();
+      expect(sniffImageType(new ArrayBuffer(0))).toBeNull();
+      expect(sniffImageType(new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45]).buffer)).toBeNull();
+    });
+  });
+
+  describe('validateImageContent', () => {
+    it('should accept an allowed content type with matching magic bytes', () => {
+      expect(validateImageContent('image/jpeg; charset=binary', jpegBytes.buffer)).toEqual({ valid: true, contentType: 'image/jpeg' });
+    });
+
+    it('should use the sniffed type for generic or mislabelled images', () => {
+      expect(validateImageContent('application/octet-stream', pngBytes.buffer)).toEqual({ valid: true, contentType: 'image/png' });
+      expect(validateImageContent('image/jpeg', webpBytes.buffer)).toEqual({ valid: true, contentType: 'image/webp' });
+    });
+
+    it('should reject content types outside the allowlist', () => {
+      const result = validateImageContent('text/html; charset=utf-8', htmlBytes.buffer);
+      expect(result).toMatchObject({ valid: false, errorType: 'invalid_content_type' });
+    });
+
+    it('should reject image content types whose data is not an image', () => {
+      const result = validateImageContent('image/jpeg', htmlBytes.buffer);
+      expect(result).toMatchObject({ valid: false, errorType: 'invalid_image_data' });
+    });
+  });
+
+  describe('readBodyWithLimit', () => {
+    it('should read a body within the limit', async () => {
+      const { response } = createStreamedResponse(3, 100);
+
+      const body = await readBodyWithLimit(response, { ...webcam, maxImageBytes: 1000 });
+      expect(body.byteLength).toBe(300);
+    });
+
+    it('should stop reading once the body passes the limit', async () => {
+      const { response, state } = createStreamedResponse(100, 100);
+
+      const read = readBodyWithLimit(response, { ...webcam, maxImageBytes: 250 });
+
+      await expect(read).rejects.toBeInstanceOf(WebcamFetchError);
+      await expect(read).rejects.toMatchObject({ errorType: 'image_too_large' });
+      expect(state.pulled).toBeLessThan(100);
+      expect(state.cancelled).toBe(true);
+    });
+
+    it('should reject a declared content length over the limit without reading the body', async () => {
+      const { response, state } = createStreamedResponse(1, 10, { 'content-length': String(DEFAULT_MAX_IMAGE_BYTES + 1) });
+
+      await expect(readBodyWithLimit(response, webcam)).rejects.toMatchObject({ errorType: 'image_too_large' });
+      expect(state.pulled).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe('readStreamWithLimit', () => {
+    it('should stop reading an uploaded request body once it passes the limit', async () => {
+      const { response, state } = createStreamedResponse(100, 100);
+      const request = new Request('http://worker.test/webcams/1/images', { method: 'POST', body: response.body, duplex: 'half' } as RequestInit);
+
+      await expect(readStreamWithLimit(request, 250)).rejects.toMatchObject({ errorType: 'image_too_large' });
+      expect(state.pulled).toBeLessThan(100);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    const currentTime = new Date('2025-09-24T18:07:00Z').getTime();
+
+    it('should parse a delay in seconds or an HTTP date', () => {
+      expect(parseRetryAfter('120', currentTime)).toBe(currentTime + 120000);
+      expect(parseRetryAfter('Wed, 24 Sep 2025 18:10:00 GMT', currentTime)).toBe(new Date('2025-09-24T18:10:00Z').getTime());
+    });
+
+    it('should cap long delays and ignore invalid values', () => {
+      expect(parseRetryAfter('86400', currentTime)).toBe(currentTime + MAX_RETRY_AFTER_MS);
+      expect(parseRetryAfter('Wed, 24 Sep 2025 18:00:00 GMT', currentTime)).toBe(currentTime);
+      expect(parseRetryAfter('soon', currentTime)).toBeNull();
+      expect(parseRetryAfter(null, currentTime)).toBeNull();
+    });
+  });
+
+  describe('createResponseError', () => {
+    it('should categorise 429 and 503 responses as rate limits with the retry time', () => {
+      const currentTime = Date.now();
+      const error = createResponseError(new Response(null, { status: 429, headers: { 'retry-after': '30' } }), 'Fetch failed: 429', currentTime);
+
+      expect(error).toBeInstanceOf(WebcamFetchError);
+      expect(error).toMatchObject({ errorType: 'rate_limited', retryAt: currentTime + 30000 });
+      expect(createResponseError(new Response(null, { status: 503 }), 'Fetch failed: 503')).toMatchObject({ errorType: 'rate_limited', retryAt: null });
+    });
+
+    it('should return a plain error for other responses', () => {
+      const error = createResponseError(new Response(null, { status: 500 }), 'Fetch failed: 500');
+      expect(error).not.toBeInstanceOf(WebcamFetchError);
+      expect(error.message).toBe('Fetch failed: 500');
+    });
+  });
+
+  describe('fetchWithTimeout', () => {
+    it('should abort a request that takes longer than the webcams timeout', async () => {
+      vi.stubGlobal('fetch', (_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      }));
+
+      await expect(fetchWithTimeout('http://cams.test/slow.jpg', {}, { ...webcam, fetchTimeoutMs: 20 }))
+        .rejects.toMatchObject({ errorType: 'fetch_timeout' });
+    });
+
+    it('should return the response of a request within the timeout', async () => {
+      vi.stubGlobal('fetch', async () => new Response(jpegBytes));
+
+      const response = await fetchWithTimeout('http://cams.test/denver.jpg', {}, webcam);
+      expect(response.status).toBe(200);
+    });
+  });
+});
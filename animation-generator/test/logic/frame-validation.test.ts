@@ -0,0 +1,112 @@
+// Unit tests for captured frame validation
+
+import { describe, it, expect } from 'vitest';
+import { validateFrame, type CapturedFrame } from '../../src/logic/frame-validation';
+import type { DecodedImage } from '../../src/logic/image';
+import { createTestWebcam } from '../helpers/webcam';
+
+/**
+ * Create an RGBA test image where each pixel is produced by the given shader
+ */
+function createImage(width: number, height: number, shader: (x: number, y: number) => number): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = shader(x, y);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Create fake JPEG bytes with start and optionally end of image markers
+ */
+function createJpegData(withEndMarker: boolean): ArrayBuffer {
+  const bytes = [0xFF, 0xD8, 0x01, 0x02, 0x03, 0x04];
+  if (withEndMarker) {
+    bytes.push(0xFF, 0xD9);
+  }
+  return new Uint8Array(bytes).buffer;
+}
+
+describe('Frame Validation', () => {
+  const webcam = createTestWebcam();
+
+  const sceneFrame: CapturedFrame = {
+    contentType: 'image/jpeg',
+    imageData: createJpegData(true),
+    imageHash: 'sha-scene',
+    decodedImage: createImage(64, 48, (x, y) => 60 + x + y),
+    perceptualHash: 'ffff0000ffff0000'
+  };
+
+  describe('validateFrame', () => {
+    it('should accept a normal frame', () => {
+      expect(validateFrame(webcam, sceneFrame).valid).toBe(true);
+    });
+
+    it('should reject a truncated jpeg', () => {
+      const result = validateFrame(webcam, { ...sceneFrame, imageData: createJpegData(false) });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('truncated');
+    });
+
+    it('should reject a jpeg that could not be decoded', () => {
+      const result = validateFrame(webcam, { ...sceneFrame, decodedImage: null, perceptualHash: null });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('could not be decoded');
+    });
+
+    it('should reject a black frame', () => {
+      const result = validateFrame(webcam, { ...sceneFrame, decodedImage: createImage(64, 48, (x) => x % 4) });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('mean luminance');
+    });
+
+    it('should use the webcams luminance floor', () => {
+      const darkFrame = { ...sceneFrame, decodedImage: createImage(64, 48, (x, y) => 20 + (x + y) % 10) };
+      expect(validateFrame(webcam, darkFrame).valid).toBe(true);
+      expect(validateFrame({ ...webcam, minMeanLuminance: 40 }, darkFrame).valid).toBe(false);
+    });
+
+    it('should accept a dark moonlit frame captured in night mode', () => {
+      // A faint moonlit ridge line above a near black valley
+      const moonlitFrame = { ...sceneFrame, decodedImage: createImage(64, 48, (x, y) => (y < 16 ? 5 : 2) + (x % 2)) };
+
+      expect(validateFrame(webcam, moonlitFrame).valid).toBe(false);
+      expect(validateFrame(webcam, { ...moonlitFrame, nightMode: true }).valid).toBe(true);
+    });
+
+    it('should still reject a black frame captured in night mode', () => {
+      const result = validateFrame(webcam, { ...sceneFrame, decodedImage: createImage(64, 48, () => 0), nightMode: true });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('mean luminance');
+    });
+
+    it('should reject a uniform gray frame', () => {
+      const result = validateFrame(webcam, { ...sceneFrame, decodedImage: createImage(64, 48, () => 128) });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('variance');
+    });
+
+    it('should reject a frame matching a placeholder SHA-256 hash', () => {
+      const result = validateFrame({ ...webcam, placeholderImageHashes: ['sha-offline', 'sha-scene'] }, sceneFrame);
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('placeholder');
+    });
+
+    it('should reject a frame close to a placeholder perceptual hash', () => {
+      const result = validateFrame({ ...webcam, placeholderImageHashes: ['ffff0000ffff0003'] }, sceneFrame);
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('perceptual');
+    });
+
+    it('should only check placeholders for images that are not jpegs', () => {
+      const pngFrame = { ...sceneFrame, contentType: 'image/png', imageData: new ArrayBuffer(4), decodedImage: null, perceptualHash: null };
+      expect(validateFrame(webcam, pngFrame).valid).toBe(true);
+      expect(validateFrame({ ...webcam, placeholderImageHashes: ['sha-scene'] }, pngFrame).valid).toBe(false);
+    });
+  });
+});
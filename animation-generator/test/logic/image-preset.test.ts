@@ -0,0 +1,114 @@
+// Unit tests for webcam image presets
+
+import { describe, it, expect } from 'vitest';
+import { applyImagePreset, hasImagePreset, parseImagePreset } from '../../src/logic/image-preset';
+import { calculatePerceptualHash, type DecodedImage } from '../../src/logic/image';
+
+/**
+ * Create an RGBA test image where each pixel is produced by the given shader
+ */
+function createImage(width: number, height: number, shader: (x: number, y: number) => number): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = shader(x, y);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Read the gray value of a pixel
+ */
+function pixel(image: DecodedImage, x: number, y: number): number {
+  return image.data[(y * image.width + x) * 4];
+}
+
+describe('Image Preset', () => {
+  // Each pixel value encodes its position so moves can be checked
+  const image = createImage(4, 3, (x, y) => y * 10 + x);
+
+  describe('applyImagePreset', () => {
+    it('should fill masks with black without changing the original image', () => {
+      const result = applyImagePreset(image, { masks: [{ x: 1, y: 1, width: 2, height: 1 }] });
+
+      expect(pixel(result, 1, 1)).toBe(0);
+      expect(pixel(result, 2, 1)).toBe(0);
+      expect(pixel(result, 3, 1)).toBe(13);
+      expect(pixel(image, 1, 1)).toBe(11);
+    });
+
+    it('should crop the image', () => {
+      const result = applyImagePreset(image, { crop: { x: 1, y: 1, width: 2, height: 2 } });
+
+      expect(result.width).toBe(2);
+      expect(result.height).toBe(2);
+      expect([pixel(result, 0, 0), pixel(result, 1, 0), pixel(result, 0, 1), pixel(result, 1, 1)]).toEqual([11, 12, 21, 22]);
+    });
+
+    it('should clamp a crop larger than the image', () => {
+      const result = applyImagePreset(image, { crop: { x: 2, y: 0, width: 100, height: 100 } });
+      expect(result.width).toBe(2);
+      expect(result.height).toBe(3);
+    });
+
+    it('should rotate the image clockwise', () => {
+      const rotated = applyImagePreset(image, { rotation: 90 });
+      expect(rotated.width).toBe(3);
+      expect(rotated.height).toBe(4);
+      // The bottom left pixel moves to the top left
+      expect(pixel(rotated, 0, 0)).toBe(20);
+
+      const upsideDown = applyImagePreset(image, { rotation: 180 });
+      expect(pixel(upsideDown, 0, 0)).toBe(23);
+
+      const rotatedLeft = applyImagePreset(image, { rotation: 270 });
+      expect(pixel(rotatedLeft, 0, 0)).toBe(3);
+    });
+
+    it('should mask and crop in the original image before rotating', () => {
+      const result = applyImagePreset(image, {
+        crop: { x: 0, y: 0, width: 2, height: 2 },
+        masks: [{ x: 0, y: 0, width: 1, height: 1 }],
+        rotation: 180
+      });
+
+      expect(pixel(result, 0, 0)).toBe(11);
+      expect(pixel(result, 1, 1)).toBe(0);
+    });
+
+    it('should make frames that only differ in a masked banner hash the same', () => {
+      const withBanner = (banner: (x: number) => number) => createImage(64, 48, (x, y) => y < 8 ? banner(x) : (x * 3 + y * 2) % 256);
+      const morning = withBanner(x => x * 4);
+      const evening = withBanner(x => 255 - x * 4);
+      const preset = { masks: [{ x: 0, y: 0, width: 64, height: 8 }] };
+
+      expect(calculatePerceptualHash(morning)).not.toBe(calculatePerceptualHash(evening));
+      expect(calculatePerceptualHash(applyImagePreset(morning, preset))).toBe(calculatePerceptualHash(applyImagePreset(evening, preset)));
+    });
+  });
+
+  describe('hasImagePreset', () => {
+    it('should only be true for presets that change the image', () => {
+      expect(hasImagePreset(null)).toBe(false);
+      expect(hasImagePreset({ masks: [], rotation: 0 })).toBe(false);
+      expect(hasImagePreset({ rotation: 90 })).toBe(true);
+    });
+  });
+
+  describe('parseImagePreset', () => {
+    it('should accept a valid preset', () => {
+      const preset = { crop: { x: 0, y: 40, width: 1280, height: 680 }, masks: [{ x: 0, y: 0, width: 300, height: 40 }], rotation: 180 };
+      expect(parseImagePreset(preset)).toEqual(preset);
+    });
+
+    it('should reject invalid regions and rotations', () => {
+      expect(() => parseImagePreset({ crop: { x: -1, y: 0, width: 10, height: 10 } })).toThrow('crop.x');
+      expect(() => parseImagePreset({ masks: [{ x: 0, y: 0, width: 0, height: 10 }] })).toThrow('masks[0]');
+      expect(() => parseImagePreset({ rotation: 45 })).toThrow('rotation');
+      expect(() => parseImagePreset([])).toThrow('object');
+    });
+  });
+});
@@ -1,7 +1,65 @@
 // Unit tests for image utility functions
 
 import { describe, it, expect } from 'vitest';
-import { guessExt } from '../../src/logic/image';
+import {
+  calculatePerceptualHash,
+  decodeJpeg,
+  encodeJpeg,
+  extractTimestampFromImageKey,
+  getThumbnailKey,
+  guessExt,
+  hammingDistance,
+  readExifDateTimeOriginal,
+  resizeImage,
+  type DecodedImage
+} from '../../src/logic/image';
+
+/**
+ * Create an RGBA test image where each pixel is produced by the given shader
+ */
+function createImage(width: number, height: number, shader: (x: number, y: number) => number): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.max(0, Math.min(255, Math.round(shader(x, y))));
+      const offset = (y * width + x) * 4;
+      data[offset] = value;
+      data[offset + 1] = value;
+      data[offset + 2] = value;
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Create JPEG bytes with an EXIF segment holding DateTimeOriginal and optionally OffsetTimeOriginal (little endian TIFF)
+ */
+function createExifJpeg(dateTime: string, offset?: string): ArrayBuffer {
+  const ascii = (value: string) => [...value].map(c => c.charCodeAt(0)).concat(0);
+  const u16 = (value: number) => [value & 0xFF, value >> 8];
+  const u32 = (value: number) => [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF, value >>> 24];
+
+  // IFD0 at 8 holds one entry pointing to the EXIF IFD at 26
+  const exifEntries = offset ? 2 : 1;
+  const dataStart = 26 + 2 + exifEntries * 12 + 4;
+  const dateTimeBytes = ascii(dateTime);
+  const offsetBytes = offset ? ascii(offset) : [];
+
+  const tiff = [
+    0x49, 0x49, ...u16(42), ...u32(8),
+    ...u16(1), ...u16(0x8769), ...u16(4), ...u32(1), ...u32(26), ...u32(0),
+    ...u16(exifEntries),
+    ...u16(0x9003), ...u16(2), ...u32(dateTimeBytes.length), ...u32(dataStart),
+    ...(offset ? [...u16(0x9011), ...u16(2), ...u32(offsetBytes.length), ...u32(dataStart + dateTimeBytes.length)] : []),
+    ...u32(0),
+    ...dateTimeBytes,
+    ...offsetBytes
+  ];
+
+  const app1 = [...ascii('Exif'), 0, ...tiff];
+  return new Uint8Array([0xFF, 0xD8, 0xFF, 0xE1, (app1.length + 2) >> 8, (app1.length + 2) & 0xFF, ...app1, 0xFF, 0xD9]).buffer;
+}
 
 describe('Image Utils', () => {
   describe('guessExt', () => {
@@ -27,4 +85,120 @@ describe('Image Utils', () => {
       expect(guessExt('text/plain')).toBe('');
     });
   });
+
+  describe('calculatePerceptualHash', () => {
+    it('should return a 16 character hex hash', () => {
+      const hash = calculatePerceptualHash(createImage(90, 80, (x) => x * 2));
+      expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should set every bit for an image that gets brighter left to right', () => {
+      expect(calculatePerceptualHash(createImage(90, 80, (x) => x * 2))).toBe('ffffffffffffffff');
+    });
+
+    it('should clear every bit for an image that gets darker left to right', () => {
+      expect(calculatePerceptualHash(createImage(90, 80, (x) => 200 - x * 2))).toBe('0000000000000000');
+    });
+
+    it('should produce a close hash for a slightly changed image', () => {
+      const scene = (x: number, y: number) => 128 + 100 * Math.sin(x / 15) * Math.cos(y / 20);
+      const original = createImage(180, 160, scene);
+      // Simulate a burned-in clock changing in the corner of the frame
+      const changed = createImage(180, 160, (x, y) => (x < 20 && y < 10) ? 255 : scene(x, y) + 2);
+
+      expect(hammingDistance(calculatePerceptualHash(original), calculatePerceptualHash(changed))).toBeLessThanOrEqual(4);
+    });
+
+    it('should produce a distant hash for a different scene', () => {
+      const first = createImage(180, 160, (x, y) => 128 + 100 * Math.sin(x / 15) * Math.cos(y / 20));
+      const second = createImage(180, 160, (x, y) => 128 + 100 * Math.cos(x / 7) * Math.sin(y / 9));
+
+      expect(hammingDistance(calculatePerceptualHash(first), calculatePerceptualHash(second))).toBeGreaterThan(10);
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('should return 0 for identical hashes', () => {
+      expect(hammingDistance('a1b2c3d4e5f60718', 'a1b2c3d4e5f60718')).toBe(0);
+    });
+
+    it('should count differing bits', () => {
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+      expect(hammingDistance('0000000000000000', '0000000000000003')).toBe(2);
+    });
+
+    it('should throw for hashes of different lengths', () => {
+      expect(() => hammingDistance('00', '000')).toThrow();
+    });
+  });
+
+  describe('decodeJpeg', () => {
+    it('should return null for data that is not a jpeg', () => {
+      const html = new TextEncoder().encode('<html><body>Camera offline</body></html>');
+      expect(decodeJpeg(html.buffer as ArrayBuffer)).toBeNull();
+    });
+  });
+
+  describe('readExifDateTimeOriginal', () => {
+    it('should read the capture time from the exif data', () => {
+      expect(readExifDateTimeOriginal(createExifJpeg('2025:09:24 12:05:00'))).toEqual({ dateTime: '2025:09:24 12:05:00', offset: null });
+    });
+
+    it('should read the capture time offset when the camera records one', () => {
+      expect(readExifDateTimeOriginal(createExifJpeg('2025:09:24 12:05:00', '-06:00'))).toEqual({ dateTime: '2025:09:24 12:05:00', offset: '-06:00' });
+    });
+
+    it('should return null for images without exif data', () => {
+      const jpeg = new Uint8Array([0xFF, 0xD8, 0xFF, 0xDA, 0x00, 0x02, 0xFF, 0xD9]);
+      expect(readExifDateTimeOriginal(jpeg.buffer)).toBeNull();
+      expect(readExifDateTimeOriginal(new TextEncoder().encode('not a jpeg').buffer as ArrayBuffer)).toBeNull();
+    });
+  });
+
+  describe('resizeImage', () => {
+    it('should downscale an image keeping the aspect ratio', () => {
+      const resized = resizeImage(createImage(640, 480, () => 100), 320);
+      expect(resized.width).toBe(320);
+      expect(resized.height).toBe(240);
+      expect(resized.data.length).toBe(320 * 240 * 4);
+    });
+
+    it('should average the source pixels covered by each output pixel', () => {
+      // Alternating black and white columns average to mid gray
+      const resized = resizeImage(createImage(8, 2, (x) => x % 2 === 0 ? 0 : 255), 4);
+      expect(Array.from(resized.data.subarray(0, 4))).toEqual([128, 128, 128, 255]);
+    });
+
+    it('should not upscale an image that already fits', () => {
+      const image = createImage(200, 100, () => 100);
+      expect(resizeImage(image, 320)).toBe(image);
+    });
+  });
+
+  describe('encodeJpeg', () => {
+    it('should encode an image that decodes to the same size', () => {
+      const jpeg = encodeJpeg(createImage(32, 24, (x, y) => x * 4 + y), 80);
+      const decoded = decodeJpeg(jpeg.buffer as ArrayBuffer);
+
+      expect(jpeg[0]).toBe(0xFF);
+      expect(jpeg[1]).toBe(0xD8);
+      expect(decoded?.width).toBe(32);
+      expect(decoded?.height).toBe(24);
+    });
+  });
+
+  describe('getThumbnailKey', () => {
+    it('should store thumbnails under the thumbs prefix as jpegs', () => {
+      expect(getThumbnailKey('images/romo/trail-ridge/1758736800.jpg')).toBe('thumbs/romo/trail-ridge/1758736800.jpg');
+      expect(getThumbnailKey('images/romo/trail-ridge/1758736800.png')).toBe('thumbs/romo/trail-ridge/1758736800.jpg');
+    });
+  });
+
+  describe('extractTimestampFromImageKey', () => {
+    it('should read the timestamp from pulled and pushed image keys', () => {
+      expect(extractTimestampFromImageKey('images/romo/trail-ridge/1758736800.jpg')).toBe(1758736800);
+      expect(extractTimestampFromImageKey('images/romo/trail-ridge/1758736800_3fa9c2e1b0d4.jpg')).toBe(1758736800);
+      expect(extractTimestampFromImageKey('images/romo/trail-ridge/latest.jpg')).toBeNull();
+    });
+  });
 });
@@ -41,13 +41,43 @@ describe('SunriseRetentionPolicy', () => {
         id: 1,
         name: 'denver-cam',
         url: 'http://example.com/denver',
+        sourceType: 'direct_url',
+        sourceConfig: null,
+        requestProfile: null,
+        fallbackUrls: null,
         enabled: true,
         intervalMinutes: 5,
+        captureCadence: null,
         displayName: 'Denver Test Cam',
         latLon: denverLatLon,
         nationalPark: 'Rocky Mountain',
         timezone: 'America/Denver',
+        twilightType: null,
+        lightWindowSunElevation: null,
+        elevationMeters: null,
+        horizonProfile: null,
+        headingDegrees: null,
+        horizontalFovDegrees: null,
+        nightModeMinIllumination: null,
         lastImageHash: null,
+        lastEtag: null,
+        lastModified: null,
+        lastPerceptualHash: null,
+        perceptualHashThreshold: null,
+        healthState: 'healthy',
+        unchangedDaylightMinutes: 0,
+        unchangedCheckedAt: null,
+        staleThresholdMinutes: 60,
+        minMeanLuminance: null,
+        placeholderImageHashes: null,
+        consecutiveFailures: 0,
+        nextAttemptAt: null,
+        suspendAfterFailures: 10,
+        sourceTimezone: null,
+        sourceTimeWindowMinutes: 30,
+        imagePreset: null,
+        fetchTimeoutMs: null,
+        maxImageBytes: null,
         lastActiveAt: null,
         createdAt: null,
         updatedAt: null,
@@ -57,13 +87,43 @@ describe('SunriseRetentionPolicy', () => {
         id: 2,
         name: 'nyc-cam',
         url: 'http://example.com/nyc',
+        sourceType: 'direct_url',
+        sourceConfig: null,
+        requestProfile: null,
+        fallbackUrls: null,
         enabled: true,
         intervalMinutes: 5,
+        captureCadence: null,
         displayName: 'NYC Test Cam',
         latLon: nycLatLon,
         nationalPark: 'Statue of Liberty',
         timezone: 'America/New_York',
+        twilightType: null,
+        lightWindowSunElevation: null,
+        elevationMeters: null,
+        horizonProfile: null,
+        headingDegrees: null,
+        horizontalFovDegrees: null,
+        nightModeMinIllumination: null,
         lastImageHash: null,
+        lastEtag: null,
+        lastModified: null,
+        lastPerceptualHash: null,
+        perceptualHashThreshold: null,
+        healthState: 'healthy',
+        unchangedDaylightMinutes: 0,
+        unchangedCheckedAt: null,
+        staleThresholdMinutes: 60,
+        minMeanLuminance: null,
+        placeholderImageHashes: null,
+        consecutiveFailures: 0,
+        nextAttemptAt: null,
+        suspendAfterFailures: 10,
+        sourceTimezone: null,
+        sourceTimeWindowMinutes: 30,
+        imagePreset: null,
+        fetchTimeoutMs: null,
+        maxImageBytes: null,
         lastActiveAt: null,
         createdAt: null,
         updatedAt: null,
@@ -82,7 +142,8 @@ describe('SunriseRetentionPolicy', () => {
       deleteWebcam: vi.fn(),
       getEnabledWebcams: vi.fn(),
       updateWebcamStatus: vi.fn(),
-      getWebcamTimezone: vi.fn()
+      getWebcamTimezone: vi.fn(),
+      updateWebcamCacheValidators: vi.fn()
     };
 
     // Mock image repository
@@ -106,7 +167,9 @@ describe('SunriseRetentionPolicy', () => {
       webcams: mockWebcamRepo,
       imageRepository: mockImageRepo,
       diagnostics: {} as any,
-      animationQueue: {} as any
+      animationQueue: {} as any,
+      uploadTokens: {} as any,
+      captureHosts: {} as any, animationProfiles: {} as any
     };
   });
 
@@ -175,13 +238,43 @@ describe('SunriseRetentionPolicy', () => {
         id: 3,
         name: 'no-location-cam',
         url: 'http://example.com/no-location',
+        sourceType: 'direct_url',
+        sourceConfig: null,
+        requestProfile: null,
+        fallbackUrls: null,
         enabled: true,
         intervalMinutes: 5,
+        captureCadence: null,
         displayName: 'No Location Cam',
         latLon: null,
         nationalPark: 'Unknown',
         timezone: 'America/Denver',
+        twilightType: null,
+        lightWindowSunElevation: null,
+        elevationMeters: null,
+        horizonProfile: null,
+        headingDegrees: null,
+        horizontalFovDegrees: null,
+        nightModeMinIllumination: null,
         lastImageHash: null,
+        lastEtag: null,
+        lastModified: null,
+        lastPerceptualHash: null,
+        perceptualHashThreshold: null,
+        healthState: 'healthy',
+        unchangedDaylightMinutes: 0,
+        unchangedCheckedAt: null,
+        staleThresholdMinutes: 60,
+        minMeanLuminance: null,
+        placeholderImageHashes: null,
+        consecutiveFailures: 0,
+        nextAttemptAt: null,
+        suspendAfterFailures: 10,
+        sourceTimezone: null,
+        sourceTimeWindowMinutes: 30,
+        imagePreset: null,
+        fetchTimeoutMs: null,
+        maxImageBytes: null,
         lastActiveAt: null,
         createdAt: null,
         updatedAt: null,
@@ -204,6 +297,25 @@ describe('SunriseRetentionPolicy', () => {
       await expect(SunriseRetentionPolicy.apply(mockRepo, startTime, endTime)).resolves.not.toThrow();
       expect(mockWebcamRepo.getAllWebcams).toHaveBeenCalledOnce();
     });
+
+    it('should pick the image captured closest to sunrise rather than the one fetched closest', async () => {
+      testWebcams.length = 1;
+
+      // The window runs from 5 minutes before to 15 minutes after the sunrise target
+      vi.mocked(mockImageRepo.getImagesForTimeRange).mockImplementation(async (_webcam, windowStart) => {
+        const target = windowStart + 5 * 60;
+        return [
+          { id: 1, webcamId: 1, timeStamp: target, sourceTimeStamp: target - 4 * 60, objectName: 'images/1.jpg', retentionPolicy: null } as Image,
+          { id: 2, webcamId: 1, timeStamp: target + 3 * 60, sourceTimeStamp: target, objectName: 'images/2.jpg', retentionPolicy: null } as Image
+        ];
+      });
+
+      const startTime = summerSolstice2024 / 1000;
+      await SunriseRetentionPolicy.apply(mockRepo, startTime, startTime);
+
+      expect(mockImageRepo.putImage).toHaveBeenCalledOnce();
+      expect(vi.mocked(mockImageRepo.putImage).mock.calls[0][0]).toMatchObject({ id: 2, retentionPolicy: ['Sunrise'] });
+    });
   });
 
   describe('Image Selection Logic', () => {
@@ -269,6 +381,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor((imageTime - 10 * 60 * 1000) / 1000), // 10 min before
           objectName: 'image1.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: null,
           retentionPolicySettings: null
         },
@@ -277,6 +392,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor((imageTime - 2 * 60 * 1000) / 1000), // 2 min before (closest)
           objectName: 'image2.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: null,
           retentionPolicySettings: null
         },
@@ -285,6 +403,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor((imageTime + 5 * 60 * 1000) / 1000), // 5 min after
           objectName: 'image3.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: null,
           retentionPolicySettings: null
         }
@@ -331,6 +452,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor(imageTime / 1000),
           objectName: 'single-image.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: null,
           retentionPolicySettings: null
         }
@@ -410,6 +534,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor(imageTime / 1000),
           objectName: 'sunrise-image.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: ['Other'],
           retentionPolicySettings: null
         }
@@ -439,6 +566,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor(imageTime / 1000), // Closest - will be selected
           objectName: 'best-sunrise.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: null,
           retentionPolicySettings: null
         },
@@ -447,6 +577,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor((imageTime + 10 * 60 * 1000) / 1000), // Further away
           objectName: 'other-sunrise.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: ['Sunrise', 'Other'], // Has Sunrise policy that should be removed
           retentionPolicySettings: null
         }
@@ -485,6 +618,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor(imageTime / 1000),
           objectName: 'already-sunrise.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: ['Sunrise'], // Already has the policy
           retentionPolicySettings: null
         }
@@ -552,6 +688,9 @@ describe('SunriseRetentionPolicy', () => {
           webcamId: webcam.id,
           timeStamp: Math.floor(imageTime / 1000),
           objectName: 'test-image.jpg',
+          thumbnailObjectName: null,
+          perceptualHash: null,
+          sourceTimeStamp: null,
           retentionPolicy: null,
           retentionPolicySettings: null
         }
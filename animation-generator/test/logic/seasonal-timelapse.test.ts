@@ -0,0 +1,86 @@
+// Unit tests for seasonal animations
+
+import { describe, it, expect } from 'vitest';
+import { getSeasonalAnchorLabel, getSeasonalAnchorTimes, parseSeasonalAnchor, selectSeasonalFrame } from '../../src/logic/seasonal-timelapse';
+import type { Image } from '../../src/db/schema';
+import { createTestWebcam } from '../helpers/webcam';
+
+describe('Seasonal Timelapse', () => {
+  const webcam = createTestWebcam({ latLon: '39.740,-104.975' });
+
+  const createImage = (id: number, time: string, retentionPolicy: string[] | null = null) => ({
+    id,
+    webcamId: 1,
+    timeStamp: new Date(time).getTime() / 1000,
+    sourceTimeStamp: new Date(time).getTime() / 1000,
+    objectName: `images/${id}.jpg`,
+    retentionPolicy
+  }) as Image;
+
+  describe('parseSeasonalAnchor', () => {
+    it('accepts solar noon and clock times', () => {
+      expect(parseSeasonalAnchor('solar_noon')).toEqual({ event: 'solar_noon' });
+      expect(parseSeasonalAnchor('09:30')).toEqual({ clockTime: '09:30' });
+    });
+
+    it('rejects other anchors', () => {
+      expect(parseSeasonalAnchor('sunrise')).toBeNull();
+      expect(parseSeasonalAnchor('24:00')).toBeNull();
+      expect(parseSeasonalAnchor(1200)).toBeNull();
+    });
+
+    it('labels anchors for storage keys', () => {
+      expect(getSeasonalAnchorLabel({ event: 'solar_noon' })).toBe('solar_noon');
+      expect(getSeasonalAnchorLabel({ clockTime: '09:30' })).toBe('0930');
+    });
+  });
+
+  describe('getSeasonalAnchorTimes', () => {
+    it('uses the local clock time on each day across a daylight saving change', () => {
+      const anchorTimes = getSeasonalAnchorTimes(webcam, '2025-11-01', '2025-11-03', { clockTime: '12:00' });
+
+      expect(anchorTimes).toEqual([
+        { dateString: '2025-11-01', time: new Date('2025-11-01T12:00:00-06:00').getTime() },
+        { dateString: '2025-11-02', time: new Date('2025-11-02T12:00:00-07:00').getTime() },
+        { dateString: '2025-11-03', time: new Date('2025-11-03T12:00:00-07:00').getTime() }
+      ]);
+    });
+
+    it('uses solar noon on each day', () => {
+      const anchorTimes = getSeasonalAnchorTimes(webcam, '2025-06-01', '2025-06-30', { event: 'solar_noon' });
+
+      expect(anchorTimes).toHaveLength(30);
+      anchorTimes.forEach(anchorTime => {
+        // Solar noon in Denver is around 13:00 during daylight saving time
+        const offset = anchorTime.time - new Date(`${anchorTime.dateString}T13:00:00-06:00`).getTime();
+        expect(Math.abs(offset)).toBeLessThan(15 * 60 * 1000);
+      });
+    });
+
+    it('skips solar noon without location data', () => {
+      expect(getSeasonalAnchorTimes({ ...webcam, latLon: null }, '2025-06-01', '2025-06-03', { event: 'solar_noon' })).toEqual([]);
+    });
+  });
+
+  describe('selectSeasonalFrame', () => {
+    const anchorTime = new Date('2025-06-01T13:00:00-06:00').getTime();
+    const images = [
+      createImage(1, '2025-06-01T12:40:00-06:00'),
+      createImage(2, '2025-06-01T13:05:00-06:00'),
+      createImage(3, '2025-06-01T13:20:00-06:00', ['SolarNoon'])
+    ];
+
+    it('picks the image closest to a clock time anchor', () => {
+      expect(selectSeasonalFrame(images, anchorTime, { clockTime: '13:00' })?.id).toBe(2);
+    });
+
+    it('prefers the image retained for solar noon', () => {
+      expect(selectSeasonalFrame(images, anchorTime, { event: 'solar_noon' })?.id).toBe(3);
+      expect(selectSeasonalFrame(images.slice(0, 2), anchorTime, { event: 'solar_noon' })?.id).toBe(2);
+    });
+
+    it('returns null without images', () => {
+      expect(selectSeasonalFrame([], anchorTime, { event: 'solar_noon' })).toBeNull();
+    });
+  });
+});
@@ -2,10 +2,17 @@
 
 import { describe, it, expect } from 'vitest';
 import {
+  calculateMoonTimes,
   calculateSolarTimes,
   parseLatLon,
+  calculateSunInFrameWindows,
   calculateWebcamSolarTimes,
+  getHorizonElevation,
+  getLightWindowBounds,
+  getPolarCondition,
   isDaylight,
+  isMoonlit,
+  DEFAULT_LIGHT_WINDOW_PADDING,
   type SolarTimes
 } from '../../src/logic/solar-calculations.js';
 import { fromDate } from '../../src/logic/timestamp.js';
@@ -225,6 +232,206 @@ describe('Solar Calculations', () => {
     });
   });
 
+  describe('light windows', () => {
+    const septemberTimestamp = fromDate(new Date('2025-09-24T18:00:00Z'));
+    const minute = 60 * 1000;
+
+    it('should use nautical twilight by default', () => {
+      const defaultTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp);
+      const nauticalTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { twilightType: 'nautical' });
+      expect(defaultTimes).toEqual(nauticalTimes);
+    });
+
+    it('should take first and last light from the chosen twilight type', () => {
+      const civil = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { twilightType: 'civil' });
+      const nautical = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { twilightType: 'nautical' });
+      const astronomical = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { twilightType: 'astronomical' });
+
+      expect(astronomical.firstLight).toBeLessThan(nautical.firstLight);
+      expect(nautical.firstLight).toBeLessThan(civil.firstLight);
+      expect(civil.firstLight).toBeLessThan(civil.sunrise);
+      expect(civil.lastLight).toBeLessThan(nautical.lastLight);
+      expect(nautical.lastLight).toBeLessThan(astronomical.lastLight);
+    });
+
+    it('should find first and last light for an explicit sun elevation', () => {
+      const civil = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { twilightType: 'civil' });
+      const elevation = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { sunElevation: -6 });
+
+      // SunCalc approximates its twilight times so allow a couple of minutes difference
+      expect(Math.abs(elevation.firstLight - civil.firstLight)).toBeLessThan(2 * minute);
+      expect(Math.abs(elevation.lastLight - civil.lastLight)).toBeLessThan(2 * minute);
+
+      // A sun elevation above the horizon starts the window after sunrise
+      const aboveHorizon = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { sunElevation: 5 });
+      expect(aboveHorizon.firstLight).toBeGreaterThan(aboveHorizon.sunrise);
+      expect(aboveHorizon.lastLight).toBeLessThan(aboveHorizon.sunset);
+    });
+
+    it('should return NaN when the sun never reaches the elevation', () => {
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { sunElevation: 80 });
+      expect(isNaN(solarTimes.firstLight)).toBe(true);
+      expect(isNaN(solarTimes.lastLight)).toBe(true);
+    });
+
+    it('should only pad the default light window', () => {
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp);
+      const sunriseDuration = solarTimes.sunrise - solarTimes.firstLight;
+
+      expect(getLightWindowBounds(solarTimes).lightStart)
+        .toBe(solarTimes.firstLight - DEFAULT_LIGHT_WINDOW_PADDING * sunriseDuration);
+      expect(getLightWindowBounds(solarTimes, { twilightType: 'nautical' }))
+        .toEqual({ lightStart: solarTimes.firstLight, lightEnd: solarTimes.lastLight });
+    });
+
+    it('should use the light window for daylight checks', () => {
+      const civil = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, { twilightType: 'civil' });
+      const beforeCivilDawn = civil.firstLight - 5 * minute;
+
+      expect(isDaylight('39.7392,-104.9903', beforeCivilDawn)).toBe(true);
+      expect(isDaylight('39.7392,-104.9903', beforeCivilDawn, { twilightType: 'civil' })).toBe(false);
+      expect(isDaylight('39.7392,-104.9903', civil.firstLight + 5 * minute, { sunElevation: -6 })).toBe(true);
+    });
+  });
+
+  describe('apparent sunrise and sunset', () => {
+    const septemberTimestamp = fromDate(new Date('2025-09-24T18:00:00Z'));
+    const minute = 60 * 1000;
+
+    it('should equal the geometric times without an observer', () => {
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp);
+      expect(solarTimes.apparentSunrise).toBe(solarTimes.sunrise);
+      expect(solarTimes.apparentSunset).toBe(solarTimes.sunset);
+    });
+
+    it('should see the sun earlier and later from a high elevation', () => {
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, {}, { elevationMeters: 3500 });
+
+      expect(solarTimes.apparentSunrise).toBeLessThan(solarTimes.sunrise - 5 * minute);
+      expect(solarTimes.apparentSunset).toBeGreaterThan(solarTimes.sunset + 5 * minute);
+    });
+
+    it('should wait for the sun to clear ridges in the horizon profile', () => {
+      // A ridge to the east and open sky to the west
+      const horizonProfile = [{ azimuth: 60, elevation: 6 }, { azimuth: 120, elevation: 6 }, { azimuth: 180, elevation: 0 }, { azimuth: 0, elevation: 0 }];
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, {}, { horizonProfile });
+
+      expect(solarTimes.apparentSunrise - solarTimes.sunrise).toBeGreaterThan(20 * minute);
+      expect(solarTimes.apparentSunset).toBe(solarTimes.sunset);
+    });
+
+    it('should return NaN when the sun never clears the horizon profile', () => {
+      const horizonProfile = [{ azimuth: 0, elevation: 85 }];
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp, {}, { horizonProfile });
+
+      expect(isNaN(solarTimes.apparentSunrise)).toBe(true);
+      expect(isNaN(solarTimes.apparentSunset)).toBe(true);
+      expect(isNaN(solarTimes.sunrise)).toBe(false);
+    });
+  });
+
+  describe('golden and blue hour', () => {
+    const septemberTimestamp = fromDate(new Date('2025-09-24T18:00:00Z'));
+    const minute = 60 * 1000;
+
+    it('should have the golden hours inside the day and the blue hour after sunset', () => {
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp);
+
+      expect(solarTimes.goldenHourEnd).toBeGreaterThan(solarTimes.sunrise);
+      expect(solarTimes.goldenHourStart).toBeLessThan(solarTimes.sunset);
+      expect(solarTimes.civilDusk).toBeGreaterThan(solarTimes.sunset);
+      expect(solarTimes.civilDusk).toBeLessThan(solarTimes.lastLight);
+
+      // Around 45 minutes of golden hour and 30 minutes of blue hour in Denver in September
+      expect(solarTimes.goldenHourEnd - solarTimes.sunrise).toBeGreaterThan(30 * minute);
+      expect(solarTimes.goldenHourEnd - solarTimes.sunrise).toBeLessThan(60 * minute);
+      expect(solarTimes.civilDusk - solarTimes.sunset).toBeGreaterThan(20 * minute);
+      expect(solarTimes.civilDusk - solarTimes.sunset).toBeLessThan(40 * minute);
+    });
+  });
+
+  describe('moon', () => {
+    it('should find the full moon rising in the evening and setting the next morning', () => {
+      const moonTimes = calculateMoonTimes('39.740,-104.975', new Date('2025-10-06T00:00:00-06:00').getTime())!;
+
+      expect(new Date(moonTimes.moonrise).toISOString()).toMatch(/^2025-10-07T00:/);
+      expect(new Date(moonTimes.moonset).toISOString()).toMatch(/^2025-10-07T1[34]:/);
+      expect(moonTimes.illumination).toBeGreaterThan(0.95);
+    });
+
+    it('should be dark around the new moon', () => {
+      const moonTimes = calculateMoonTimes('39.740,-104.975', new Date('2025-09-21T00:00:00-06:00').getTime())!;
+      expect(moonTimes.illumination).toBeLessThan(0.05);
+    });
+
+    it('should only be moonlit while a bright enough moon is up', () => {
+      const midnight = new Date('2025-10-07T00:00:00-06:00').getTime();
+      const noon = new Date('2025-10-07T12:00:00-06:00').getTime();
+
+      expect(isMoonlit('39.740,-104.975', midnight, 0.9)).toBe(true);
+      expect(isMoonlit('39.740,-104.975', noon, 0.9)).toBe(false);
+      expect(isMoonlit('39.740,-104.975', midnight, 1.1)).toBe(false);
+      expect(isMoonlit(null, midnight, 0.9)).toBe(false);
+    });
+  });
+
+  describe('getHorizonElevation', () => {
+    const profile = [{ azimuth: 90, elevation: 10 }, { azimuth: 270, elevation: 2 }];
+
+    it('should interpolate between profile points', () => {
+      expect(getHorizonElevation(profile, 90)).toBe(10);
+      expect(getHorizonElevation(profile, 180)).toBe(6);
+    });
+
+    it('should wrap around north', () => {
+      expect(getHorizonElevation(profile, 0)).toBe(6);
+      expect(getHorizonElevation(profile, 315)).toBe(4);
+      expect(getHorizonElevation(profile, -45)).toBe(4);
+    });
+
+    it('should return 0 for an empty profile', () => {
+      expect(getHorizonElevation([], 90)).toBe(0);
+    });
+  });
+
+  describe('calculateSunInFrameWindows', () => {
+    const septemberTimestamp = fromDate(new Date('2025-09-24T18:00:00Z'));
+
+    it('should find the sun low in the frame of an east facing camera after sunrise', () => {
+      const solarTimes = calculateSolarTimes(denverLat, denverLon, septemberTimestamp);
+      const windows = calculateSunInFrameWindows('39.7392,-104.9903', septemberTimestamp, { headingDegrees: 90, horizontalFovDegrees: 60 })!;
+
+      expect(windows).toHaveLength(1);
+      expect(Math.abs(windows[0].start - solarTimes.sunrise)).toBeLessThan(5 * 60 * 1000);
+      // The sun climbs out of the frame within a few hours
+      expect(windows[0].end - windows[0].start).toBeGreaterThan(60 * 60 * 1000);
+      expect(windows[0].end).toBeLessThan(solarTimes.sunrise + 4 * 60 * 60 * 1000);
+    });
+
+    it('should not find the sun in the frame of a north facing camera', () => {
+      expect(calculateSunInFrameWindows('39.7392,-104.9903', septemberTimestamp, { headingDegrees: 0, horizontalFovDegrees: 90 })).toEqual([]);
+    });
+
+    it('should return null for an invalid location', () => {
+      expect(calculateSunInFrameWindows('invalid', septemberTimestamp, { headingDegrees: 90, horizontalFovDegrees: 60 })).toBeNull();
+    });
+  });
+
+  describe('getPolarCondition', () => {
+    const gatesOfTheArctic = '67.78,-153.30';
+
+    it('should detect the midnight sun and polar night in the Alaskan arctic', () => {
+      expect(getPolarCondition(gatesOfTheArctic, fromDate(new Date('2025-06-21T12:00:00Z')))).toBe('midnight_sun');
+      expect(getPolarCondition(gatesOfTheArctic, fromDate(new Date('2025-12-21T12:00:00Z')))).toBe('polar_night');
+    });
+
+    it('should return null when the sun rises and sets', () => {
+      expect(getPolarCondition(gatesOfTheArctic, fromDate(new Date('2025-09-24T12:00:00Z')))).toBeNull();
+      expect(getPolarCondition('39.7392,-104.9903', summerSolsticeTimestamp)).toBeNull();
+      expect(getPolarCondition(null, summerSolsticeTimestamp)).toBeNull();
+    });
+  });
+
   describe('Edge Cases and Boundary Conditions', () => {
     it('should handle equator location correctly', () => {
       const equatorSolar = calculateSolarTimes(0, 0, summerSolsticeTimestamp);
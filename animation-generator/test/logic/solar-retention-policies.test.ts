@@ -41,13 +41,43 @@ describe('Solar Retention Policies', () => {
         id: 1,
         name: 'denver-cam',
         url: 'http://example.com/denver',
+        sourceType: 'direct_url',
+        sourceConfig: null,
+        requestProfile: null,
+        fallbackUrls: null,
         enabled: true,
         intervalMinutes: 5,
+        captureCadence: null,
         displayName: 'Denver Test Cam',
         latLon: denverLatLon,
         nationalPark: 'Rocky Mountain',
         timezone: 'America/Denver',
+        twilightType: null,
+        lightWindowSunElevation: null,
+        elevationMeters: null,
+        horizonProfile: null,
+        headingDegrees: null,
+        horizontalFovDegrees: null,
+        nightModeMinIllumination: null,
         lastImageHash: null,
+        lastEtag: null,
+        lastModified: null,
+        lastPerceptualHash: null,
+        perceptualHashThreshold: null,
+        healthState: 'healthy',
+        unchangedDaylightMinutes: 0,
+        unchangedCheckedAt: null,
+        staleThresholdMinutes: 60,
+        minMeanLuminance: null,
+        placeholderImageHashes: null,
+        consecutiveFailures: 0,
+        nextAttemptAt: null,
+        suspendAfterFailures: 10,
+        sourceTimezone: null,
+        sourceTimeWindowMinutes: 30,
+        imagePreset: null,
+        fetchTimeoutMs: null,
+        maxImageBytes: null,
         lastActiveAt: null,
         createdAt: null,
         updatedAt: null,
@@ -57,13 +87,43 @@ describe('Solar Retention Policies', () => {
         id: 2,
         name: 'nyc-cam',
         url: 'http://example.com/nyc',
+        sourceType: 'direct_url',
+        sourceConfig: null,
+        requestProfile: null,
+        fallbackUrls: null,
         enabled: true,
         intervalMinutes: 5,
+        captureCadence: null,
         displayName: 'NYC Test Cam',
         latLon: nycLatLon,
         nationalPark: 'Statue of Liberty',
         timezone: 'America/New_York',
+        twilightType: null,
+        lightWindowSunElevation: null,
+        elevationMeters: null,
+        horizonProfile: null,
+        headingDegrees: null,
+        horizontalFovDegrees: null,
+        nightModeMinIllumination: null,
         lastImageHash: null,
+        lastEtag: null,
+        lastModified: null,
+        lastPerceptualHash: null,
+        perceptualHashThreshold: null,
+        healthState: 'healthy',
+        unchangedDaylightMinutes: 0,
+        unchangedCheckedAt: null,
+        staleThresholdMinutes: 60,
+        minMeanLuminance: null,
+        placeholderImageHashes: null,
+        consecutiveFailures: 0,
+        nextAttemptAt: null,
+        suspendAfterFailures: 10,
+        sourceTimezone: null,
+        sourceTimeWindowMinutes: 30,
+        imagePreset: null,
+        fetchTimeoutMs: null,
+        maxImageBytes: null,
         lastActiveAt: null,
         createdAt: null,
         updatedAt: null,
@@ -82,7 +142,8 @@ describe('Solar Retention Policies', () => {
       deleteWebcam: vi.fn(),
       getEnabledWebcams: vi.fn(),
       updateWebcamStatus: vi.fn(),
-      getWebcamTimezone: vi.fn()
+      getWebcamTimezone: vi.fn(),
+      updateWebcamCacheValidators: vi.fn()
     };
 
     // Mock image repository
@@ -106,7 +167,9 @@ describe('Solar Retention Policies', () => {
       webcams: mockWebcamRepo,
       imageRepository: mockImageRepo,
       diagnostics: {} as any,
-      animationQueue: {} as any
+      animationQueue: {} as any,
+      uploadTokens: {} as any,
+      captureHosts: {} as any, animationProfiles: {} as any
     };
   });
 
@@ -217,6 +280,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((solarNoonTime - 20 * 60 * 1000) / 1000), // 20 min before
             objectName: 'image1.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           },
@@ -225,6 +291,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((solarNoonTime - 3 * 60 * 1000) / 1000), // 3 min before (closest)
             objectName: 'image2.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           },
@@ -233,6 +302,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((solarNoonTime + 10 * 60 * 1000) / 1000), // 10 min after
             objectName: 'image3.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           }
@@ -383,6 +455,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((sunsetTime - 20 * 60 * 1000) / 1000), // 20 min before
             objectName: 'image1.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           },
@@ -391,6 +466,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((sunsetTime + 2 * 60 * 1000) / 1000), // 2 min after (closest)
             objectName: 'image2.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           },
@@ -399,6 +477,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((sunsetTime - 10 * 60 * 1000) / 1000), // 10 min before
             objectName: 'image3.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           }
@@ -500,6 +581,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor(sunsetTime / 1000),
             objectName: 'sunset-image.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: ['Other'],
             retentionPolicySettings: null
           }
@@ -529,6 +613,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor(sunsetTime / 1000), // Closest - will be selected
             objectName: 'best-sunset.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: null,
             retentionPolicySettings: null
           },
@@ -537,6 +624,9 @@ describe('Solar Retention Policies', () => {
             webcamId: webcam.id,
             timeStamp: Math.floor((sunsetTime + 10 * 60 * 1000) / 1000), // Further away
             objectName: 'other-sunset.jpg',
+            thumbnailObjectName: null,
+            perceptualHash: null,
+            sourceTimeStamp: null,
             retentionPolicy: ['Sunset', 'Other'], // Has Sunset policy that should be removed
             retentionPolicySettings: null
           }
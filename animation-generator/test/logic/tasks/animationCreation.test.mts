@@ -18,12 +18,42 @@ describe("createTodaysAnimations (integration, no mocks for solar/storage/date)"
       id: 1,
       name: "Denver Cam",
       url: "https://example.com/webcam.jpg",
+      sourceType: "direct_url",
+      sourceConfig: null,
+      requestProfile: null,
+      fallbackUrls: null,
       enabled: true,
       intervalMinutes: 60,
+      captureCadence: null,
       location: "Denver, CO",
       nationalPark: "Rocky Mountain",
       timezone: "America/Denver",
+      twilightType: null,
+      lightWindowSunElevation: null,
+      elevationMeters: null,
+      horizonProfile: null,
+      headingDegrees: null,
+      horizontalFovDegrees: null,
+      nightModeMinIllumination: null,
       lastImageHash: null,
+      lastEtag: null,
+      lastModified: null,
+      lastPerceptualHash: null,
+      perceptualHashThreshold: null,
+      healthState: "healthy",
+      unchangedDaylightMinutes: 0,
+      unchangedCheckedAt: null,
+      staleThresholdMinutes: 60,
+      minMeanLuminance: null,
+      placeholderImageHashes: null,
+      consecutiveFailures: 0,
+      nextAttemptAt: null,
+      suspendAfterFailures: 10,
+      sourceTimezone: null,
+      sourceTimeWindowMinutes: 30,
+      imagePreset: null,
+      fetchTimeoutMs: null,
+      maxImageBytes: null,
       displayName: "Denver Cam",
       latLon: "39.740,-104.975",
       lastActiveAt: "2025-09-23T12:00:00Z",
@@ -2,7 +2,7 @@
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { createTodaysAnimations } from "../../../src/tasks/animationCreation";
-import { WebcamDto } from "../../../src/db/schema";
+import { AnimationProfile, WebcamDto } from "../../../src/db/schema";
 import { AnimationQueueEntry } from "../../../src/types/index";
 
 describe("createTodaysAnimations (integration, no mocks for solar/storage/date)", () => {
@@ -18,12 +18,42 @@ describe("createTodaysAnimations (integration, no mocks for solar/storage/date)"
       id: 1,
       name: "Denver Cam",
       url: "https://example.com/webcam.jpg",
+      sourceType: "direct_url",
+      sourceConfig: null,
+      requestProfile: null,
+      fallbackUrls: null,
       enabled: true,
       intervalMinutes: 60,
+      captureCadence: null,
       location: "Denver, CO",
       nationalPark: "Rocky Mountain",
       timezone: "America/Denver",
+      twilightType: null,
+      lightWindowSunElevation: null,
+      elevationMeters: null,
+      horizonProfile: null,
+      headingDegrees: null,
+      horizontalFovDegrees: null,
+      nightModeMinIllumination: null,
       lastImageHash: null,
+      lastEtag: null,
+      lastModified: null,
+      lastPerceptualHash: null,
+      perceptualHashThreshold: null,
+      healthState: "healthy",
+      unchangedDaylightMinutes: 0,
+      unchangedCheckedAt: null,
+      staleThresholdMinutes: 60,
+      minMeanLuminance: null,
+      placeholderImageHashes: null,
+      consecutiveFailures: 0,
+      nextAttemptAt: null,
+      suspendAfterFailures: 10,
+      sourceTimezone: null,
+      sourceTimeWindowMinutes: 30,
+      imagePreset: null,
+      fetchTimeoutMs: null,
+      maxImageBytes: null,
       displayName: "Denver Cam",
       latLon: "39.740,-104.975",
       lastActiveAt: "2025-09-23T12:00:00Z",
@@ -135,3 +165,221 @@ describe("createTodaysAnimations (integration, no mocks for solar/storage/date)"
     });
   });
 });
+
+// Mirrors the built in profiles seeded by the animation_profiles migrations
+const builtInProfiles = [
+  { name: "hourly", windowStart: { event: "light_start" }, windowEnd: { event: "light_end" }, repeatHourly: true, frameCount: 80, minFrames: 5 },
+  { name: "sunrise", windowStart: { event: "light_start" }, windowEnd: { event: "sunrise_end" }, frameCount: 160, minFrames: 3, requireSunInFrame: "morning" },
+  { name: "sunset", windowStart: { event: "sunset_start" }, windowEnd: { event: "light_end" }, frameCount: 160, minFrames: 3, requireSunInFrame: "evening" },
+  { name: "full_day", windowStart: { event: "light_start" }, windowEnd: { event: "light_end" }, frameCount: 200, minFrames: 10, includeOnPolarDays: true },
+  { name: "sun_in_frame", windowStart: { event: "sun_in_frame_start" }, windowEnd: { event: "sun_in_frame_end" }, frameCount: 160, minFrames: 3 },
+  { name: "golden_hour_morning", windowStart: { event: "sunrise" }, windowEnd: { event: "golden_hour_end" }, frameCount: 160, minFrames: 3 },
+  { name: "golden_hour_evening", windowStart: { event: "golden_hour_start" }, windowEnd: { event: "sunset" }, frameCount: 160, minFrames: 3 },
+  { name: "blue_hour", windowStart: { event: "sunset" }, windowEnd: { event: "civil_dusk" }, frameCount: 80, minFrames: 3 },
+  { name: "moonrise", windowStart: { event: "moonrise" }, windowEnd: { event: "moonset" }, frameCount: 160, minFrames: 3, includeOnPolarDays: true, requireMoonlight: true },
+].map(profile => ({ fps: 15, webcamIds: null, requireSunInFrame: null, repeatHourly: false, includeOnPolarDays: false, requireMoonlight: false, ...profile }) as AnimationProfile);
+
+describe("createTodaysAnimations at high latitudes", () => {
+  // Gates of the Arctic National Park and Anchorage, Alaska
+  const gatesOfTheArctic = "67.78,-153.30";
+  const anchorage = "61.22,-149.90";
+
+  const createRepo = (webcam: WebcamDto) => ({
+    webcams: { getEnabledWebcams: vi.fn().mockResolvedValue([webcam]) },
+    animationQueue: { addAnimationsToQueue: vi.fn().mockResolvedValue(true) },
+    animationProfiles: { getEnabledAnimationProfiles: vi.fn().mockResolvedValue(builtInProfiles) },
+  });
+
+  const scheduleAnimations = async (latLon: string, dateString: string): Promise<AnimationQueueEntry[]> => {
+    const webcam = {
+      id: 7,
+      name: "Arctic Cam",
+      nationalPark: "Gates of the Arctic",
+      timezone: "America/Anchorage",
+      latLon,
+      twilightType: null,
+      lightWindowSunElevation: null,
+      elevationMeters: null,
+      horizonProfile: null
+    } as WebcamDto;
+    const repo = createRepo(webcam);
+
+    await createTodaysAnimations(repo as any, dateString);
+
+    return repo.animationQueue.addAnimationsToQueue.mock.calls.map(call => call[0][0]);
+  };
+
+  it("schedules a 24 hour full_day animation during the midnight sun", async () => {
+    const animations = await scheduleAnimations(gatesOfTheArctic, "2025-06-21");
+
+    expect(animations).toHaveLength(1);
+    expect(animations[0].gif_type).toBe("full_day");
+    expect(animations[0].solar_fallback).toBe("midnight_sun");
+    expect(animations[0].date_key).toBe("2025-06-21");
+    expect(animations[0].start_time).toBe(new Date("2025-06-21T00:00:00-08:00").getTime() / 1000);
+    expect(animations[0].end_time - animations[0].start_time).toBe(24 * 60 * 60);
+  });
+
+  it("schedules a full_day animation around solar noon during the polar night", async () => {
+    const animations = await scheduleAnimations(gatesOfTheArctic, "2025-12-21");
+
+    expect(animations).toHaveLength(1);
+    expect(animations[0].gif_type).toBe("full_day");
+    expect(animations[0].solar_fallback).toBe("polar_night");
+    expect(animations[0].date_key).toBe("2025-12-21");
+
+    // Civil twilight is a few hours either side of solar noon, around 13:15 local time
+    const midpoint = new Date((animations[0].start_time + animations[0].end_time) / 2 * 1000);
+    expect(Math.abs(midpoint.getTime() - new Date("2025-12-21T13:15:00-09:00").getTime())).toBeLessThan(30 * 60 * 1000);
+    expect(animations[0].end_time - animations[0].start_time).toBeGreaterThan(2 * 60 * 60);
+    expect(animations[0].end_time - animations[0].start_time).toBeLessThan(8 * 60 * 60);
+  });
+
+  it("uses the darkest point of the night when twilight lasts all night", async () => {
+    const animations = await scheduleAnimations(anchorage, "2025-06-21");
+    const types = animations.map(a => a.gif_type);
+
+    expect(types).toContain("sunrise");
+    expect(types).toContain("sunset");
+    expect(types).toContain("full_day");
+    animations.forEach(a => expect(a.solar_fallback).toBe("twilight_all_night"));
+
+    const fullDay = animations.find(a => a.gif_type === "full_day")!;
+    expect(fullDay.end_time - fullDay.start_time).toBe(24 * 60 * 60);
+  });
+
+  it("does not flag animations on days with a normal sunrise and sunset", async () => {
+    const animations = await scheduleAnimations(anchorage, "2025-09-24");
+
+    expect(animations.length).toBeGreaterThan(3);
+    animations.forEach(a => expect(a.solar_fallback).toBeNull());
+  });
+});
+
+describe("createTodaysAnimations with a camera heading", () => {
+  const scheduleAnimations = async (headingDegrees: number | null): Promise<AnimationQueueEntry[]> => {
+    const webcam = {
+      id: 3,
+      name: "Trail Ridge Cam",
+      nationalPark: "Rocky Mountain",
+      timezone: "America/Denver",
+      latLon: "39.740,-104.975",
+      twilightType: null,
+      lightWindowSunElevation: null,
+      elevationMeters: null,
+      horizonProfile: null,
+      headingDegrees,
+      horizontalFovDegrees: 60
+    } as WebcamDto;
+    const repo = {
+      webcams: { getEnabledWebcams: vi.fn().mockResolvedValue([webcam]) },
+      animationQueue: { addAnimationsToQueue: vi.fn().mockResolvedValue(true) },
+      animationProfiles: { getEnabledAnimationProfiles: vi.fn().mockResolvedValue(builtInProfiles) },
+    };
+
+    await createTodaysAnimations(repo as any, "2025-09-24");
+
+    return repo.animationQueue.addAnimationsToQueue.mock.calls.map(call => call[0][0]);
+  };
+
+  it("only schedules the sunrise for an east facing camera", async () => {
+    const animations = await scheduleAnimations(90);
+    const types = animations.map(a => a.gif_type);
+
+    expect(types).toContain("sunrise");
+    expect(types).not.toContain("sunset");
+
+    const sunInFrame = animations.find(a => a.gif_type === "sun_in_frame")!;
+    expect(sunInFrame.reference_id).toBe("3_sun_in_frame_20250924");
+    expect(sunInFrame.start_time).toBeLessThan(animations.find(a => a.gif_type === "sunrise")!.end_time);
+  });
+
+  it("only schedules the sunset for a west facing camera", async () => {
+    const types = (await scheduleAnimations(270)).map(a => a.gif_type);
+
+    expect(types).not.toContain("sunrise");
+    expect(types).toContain("sunset");
+    expect(types).toContain("sun_in_frame");
+  });
+
+  it("skips sunrise, sunset and sun in frame for a north facing camera", async () => {
+    const types = (await scheduleAnimations(0)).map(a => a.gif_type);
+
+    expect(types).not.toContain("sunrise");
+    expect(types).not.toContain("sunset");
+    expect(types).not.toContain("sun_in_frame");
+    expect(types).toContain("full_day");
+  });
+
+  it("schedules sunrise and sunset without a heading", async () => {
+    const types = (await scheduleAnimations(null)).map(a => a.gif_type);
+
+    expect(types).toContain("sunrise");
+    expect(types).toContain("sunset");
+    expect(types).not.toContain("sun_in_frame");
+  });
+
+  it("schedules golden hour and blue hour around sunrise and sunset", async () => {
+    const animations = await scheduleAnimations(null);
+    const find = (type: string) => animations.find(a => a.gif_type === type)!;
+
+    expect(find("golden_hour_morning").reference_id).toBe("3_golden_hour_morning_20250924");
+    expect(find("golden_hour_morning").gif_storage_key).toBe("gifs/Rocky Mountain/Trail Ridge Cam/golden_hour_morning/20250924.mp4");
+    expect(find("golden_hour_morning").start_time).toBeLessThan(find("sunrise").end_time);
+    expect(find("golden_hour_evening").end_time).toBeGreaterThan(find("sunset").start_time);
+    expect(find("blue_hour").start_time).toBe(find("golden_hour_evening").end_time);
+    expect(find("blue_hour").end_time).toBeLessThan(find("sunset").end_time);
+  });
+
+  it("schedules both golden hours for an east facing camera", async () => {
+    const types = (await scheduleAnimations(90)).map(a => a.gif_type);
+
+    // Golden hour light falls on the landscape whichever way the camera faces
+    expect(types).toContain("golden_hour_morning");
+    expect(types).toContain("golden_hour_evening");
+    expect(types).toContain("blue_hour");
+  });
+});
+
+describe("createTodaysAnimations in night mode", () => {
+  const scheduleAnimations = async (nightModeMinIllumination: number | null, dateString: string): Promise<AnimationQueueEntry[]> => {
+    const webcam = {
+      id: 5,
+      name: "Dark Sky Cam",
+      nationalPark: "Rocky Mountain",
+      timezone: "America/Denver",
+      latLon: "39.740,-104.975",
+      twilightType: null,
+      lightWindowSunElevation: null,
+      elevationMeters: null,
+      horizonProfile: null,
+      headingDegrees: null,
+      horizontalFovDegrees: null,
+      nightModeMinIllumination
+    } as WebcamDto;
+    const repo = {
+      webcams: { getEnabledWebcams: vi.fn().mockResolvedValue([webcam]) },
+      animationQueue: { addAnimationsToQueue: vi.fn().mockResolvedValue(true) },
+      animationProfiles: { getEnabledAnimationProfiles: vi.fn().mockResolvedValue(builtInProfiles) },
+    };
+
+    await createTodaysAnimations(repo as any, dateString);
+
+    return repo.animationQueue.addAnimationsToQueue.mock.calls.map(call => call[0][0]);
+  };
+
+  it("schedules a moonrise animation through the night of a full moon", async () => {
+    const animations = await scheduleAnimations(0.9, "2025-10-06");
+    const moonrise = animations.find(a => a.gif_type === "moonrise")!;
+
+    expect(moonrise.reference_id).toBe("5_moonrise_20251006");
+    expect(moonrise.date_key).toBe("2025-10-06");
+    expect(moonrise.start_time).toBeGreaterThan(new Date("2025-10-06T17:00:00-06:00").getTime() / 1000);
+    expect(moonrise.end_time).toBeGreaterThan(new Date("2025-10-07T05:00:00-06:00").getTime() / 1000);
+  });
+
+  it("skips the moonrise on dark nights and for webcams without night mode", async () => {
+    expect((await scheduleAnimations(0.9, "2025-09-24")).map(a => a.gif_type)).not.toContain("moonrise");
+    expect((await scheduleAnimations(null, "2025-10-06")).map(a => a.gif_type)).not.toContain("moonrise");
+  });
+});
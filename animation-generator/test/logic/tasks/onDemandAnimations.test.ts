@@ -0,0 +1,83 @@
+// Unit tests for createOnDemandAnimation in src/tasks/onDemandAnimations.ts
+
+import { describe, it, expect, vi } from "vitest";
+import { createOnDemandAnimation } from "../../../src/tasks/onDemandAnimations";
+import { Image } from "../../../src/db/schema";
+import { createTestWebcam } from "../../helpers/webcam";
+
+describe("createOnDemandAnimation", () => {
+  const webcam = createTestWebcam({
+    id: 6,
+    name: "Longs Peak Cam",
+    latLon: "39.740,-104.975"
+  });
+
+  // 2025-10-01 10:00 to 11:00 local time
+  const startTime = new Date("2025-10-01T10:00:00-06:00").getTime() / 1000;
+  const endTime = startTime + 60 * 60;
+
+  const createRepo = (imageCount: number) => {
+    const images = Array.from({ length: imageCount }, (_, i) => {
+      const timeStamp = startTime + i * 60;
+      return { id: i, timeStamp, sourceTimeStamp: timeStamp, objectName: `images/${timeStamp}.jpg` } as Image;
+    });
+
+    return {
+      imageRepository: { getImagesForTimeRange: vi.fn().mockResolvedValue(images) },
+      animationQueue: {
+        getAnimationByReferenceId: vi.fn().mockResolvedValue(null),
+        addAnimationToQueue: vi.fn().mockImplementation(async (animation) => ({ id: 42, imageList: animation.image_list, status: animation.status }))
+      },
+    };
+  };
+
+  it("queues a pending animation with the selected frames and fps", async () => {
+    const repo = createRepo(60);
+
+    const result = await createOnDemandAnimation(repo as any, webcam, startTime, endTime, 20, 24);
+
+    expect(result.success).toBe(true);
+    expect(result.item!.id).toBe(42);
+    expect(repo.imageRepository.getImagesForTimeRange).toHaveBeenCalledWith(webcam, startTime, endTime);
+
+    const animation = repo.animationQueue.addAnimationToQueue.mock.calls[0][0];
+    expect(animation.status).toBe("pending");
+    expect(animation.gif_type).toBe("on_demand");
+    expect(animation.fps).toBe(24);
+    expect(animation.image_list).toHaveLength(20);
+    expect(animation.date_key).toBe("2025-10-01");
+    expect(animation.gif_storage_key).toBe(`gifs/Rocky Mountain/Longs Peak Cam/on_demand/20251001_${startTime}_${endTime}.mp4`);
+  });
+
+  it("does not queue the animation without enough images in the time range", async () => {
+    const repo = createRepo(2);
+
+    const result = await createOnDemandAnimation(repo as any, webcam, startTime, endTime, 20, 24);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/Insufficient images/);
+    expect(repo.animationQueue.addAnimationToQueue).not.toHaveBeenCalled();
+  });
+
+  it("returns the animation already queued for the time range", async () => {
+    const repo = createRepo(60);
+    repo.animationQueue.getAnimationByReferenceId.mockResolvedValue({ id: 7, status: "processing" });
+
+    const result = await createOnDemandAnimation(repo as any, webcam, startTime, endTime, 20, 24);
+
+    expect(result.success).toBe(true);
+    expect(result.item!.id).toBe(7);
+    expect(repo.animationQueue.getAnimationByReferenceId).toHaveBeenCalledWith(`6_on_demand_${startTime}_${endTime}`);
+    expect(repo.animationQueue.addAnimationToQueue).not.toHaveBeenCalled();
+  });
+
+  it("queues the animation again when the last render failed", async () => {
+    const repo = createRepo(60);
+    repo.animationQueue.getAnimationByReferenceId.mockResolvedValue({ id: 7, status: "failed" });
+
+    const result = await createOnDemandAnimation(repo as any, webcam, startTime, endTime, 20, 24);
+
+    expect(result.item!.id).toBe(42);
+    expect(repo.animationQueue.addAnimationToQueue).toHaveBeenCalledOnce();
+  });
+});
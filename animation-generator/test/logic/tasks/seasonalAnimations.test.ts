@@ -0,0 +1,97 @@
+// Unit tests for createSeasonalAnimation in src/tasks/seasonalAnimations.ts
+
+import { describe, it, expect, vi } from "vitest";
+import { createSeasonalAnimation } from "../../../src/tasks/seasonalAnimations";
+import { GifCreationQueue, Image, WebcamDto } from "../../../src/db/schema";
+import { AnimationQueueEntry } from "../../../src/types";
+import { createTestWebcam } from "../../helpers/webcam";
+
+describe("createSeasonalAnimation", () => {
+  const webcam = createTestWebcam({
+    id: 4,
+    name: "Bear Lake Cam",
+    latLon: "39.740,-104.975"
+  });
+
+  // One image a minute after 12:00 local time (MDT) on each day, except 2025-10-03, and one at midnight
+  const images = ["01", "02", "04", "05"].flatMap(day => {
+    const noon = Date.parse(`2025-10-${day}T18:01:00Z`) / 1000;
+    const midnight = Date.parse(`2025-10-${day}T06:00:00Z`) / 1000;
+    return [noon, midnight].map(time => ({ id: time, timeStamp: time, sourceTimeStamp: time, objectName: `images/${time}.jpg`, retentionPolicy: null } as Image));
+  });
+
+  const createRepo = () => ({
+    imageRepository: {
+      getImagesForTimeRange: vi.fn().mockImplementation(async (_webcam: WebcamDto, start: number, end: number) =>
+        images.filter(image => image.sourceTimeStamp! >= start && image.sourceTimeStamp! <= end))
+    },
+    animationQueue: {
+      getAnimationByReferenceId: vi.fn().mockResolvedValue(null),
+      addAnimationToQueue: vi.fn().mockImplementation(async (animation: AnimationQueueEntry) => ({
+        id: 42,
+        webcamId: animation.webcam_id,
+        referenceId: animation.reference_id,
+        gifType: animation.gif_type,
+        scheduledTime: animation.scheduled_time,
+        imageList: animation.image_list,
+        status: animation.status,
+        createdAt: animation.created_at,
+        processedAt: null,
+        errorMessage: null,
+        startTime: animation.start_time,
+        endTime: animation.end_time,
+        gifStorageKey: animation.gif_storage_key,
+        dateKey: animation.date_key,
+        solarFallback: null,
+        fps: null
+      } as GifCreationQueue))
+    },
+  });
+
+  it("creates a pending animation with one frame per day", async () => {
+    const repo = createRepo();
+
+    const result = await createSeasonalAnimation(repo as any, webcam, "2025-10-01", "2025-10-05", { clockTime: "12:00" });
+
+    expect(result.success).toBe(true);
+    expect(result.item!.id).toBe(42);
+    expect(result.item!.status).toBe("pending");
+    expect(result.item!.gifType).toBe("seasonal");
+    expect(result.item!.referenceId).toBe("4_seasonal_20251001_20251005_1200");
+    expect(result.item!.gifStorageKey).toBe("gifs/Rocky Mountain/Bear Lake Cam/seasonal/20251001_20251005_1200.mp4");
+    expect(result.item!.dateKey).toBe("2025-10-05");
+    expect(result.item!.imageList).toEqual(images.filter((_image, i) => i % 2 === 0).map(image => image.objectName));
+    expect(repo.imageRepository.getImagesForTimeRange).toHaveBeenCalledOnce();
+    expect(repo.animationQueue.addAnimationToQueue).toHaveBeenCalledOnce();
+  });
+
+  it("does not create the animation with too few frames", async () => {
+    const repo = createRepo();
+
+    const result = await createSeasonalAnimation(repo as any, webcam, "2025-10-02", "2025-10-04", { clockTime: "12:00" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/Insufficient images/);
+    expect(repo.animationQueue.addAnimationToQueue).not.toHaveBeenCalled();
+  });
+
+  it("returns the animation already queued for the dates and anchor", async () => {
+    const repo = createRepo();
+    repo.animationQueue.getAnimationByReferenceId.mockResolvedValue({ id: 7, status: "completed" } as GifCreationQueue);
+
+    const result = await createSeasonalAnimation(repo as any, webcam, "2025-10-01", "2025-10-05", { clockTime: "12:00" });
+
+    expect(result.item!.id).toBe(7);
+    expect(repo.animationQueue.getAnimationByReferenceId).toHaveBeenCalledWith("4_seasonal_20251001_20251005_1200");
+    expect(repo.imageRepository.getImagesForTimeRange).not.toHaveBeenCalled();
+    expect(repo.animationQueue.addAnimationToQueue).not.toHaveBeenCalled();
+  });
+
+  it("loads the images for a year in monthly batches", async () => {
+    const repo = createRepo();
+
+    await createSeasonalAnimation(repo as any, webcam, "2025-01-01", "2025-12-31", { clockTime: "12:00" });
+
+    expect(repo.imageRepository.getImagesForTimeRange).toHaveBeenCalledTimes(12);
+  });
+});
@@ -0,0 +1,47 @@
+// Unit tests for thumbnail generation
+
+import { describe, it, expect } from 'vitest';
+import { createThumbnail, getThumbnailOptions, DEFAULT_THUMBNAIL_OPTIONS } from '../../src/logic/thumbnail';
+import { decodeJpeg, type DecodedImage } from '../../src/logic/image';
+
+/**
+ * Create an RGBA test image with a horizontal gradient
+ */
+function createImage(width: number, height: number): DecodedImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = Math.round(x * 255 / width);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+describe('Thumbnail', () => {
+  describe('createThumbnail', () => {
+    it('should create a jpeg downscaled to the maximum width', () => {
+      const thumbnail = createThumbnail(createImage(800, 600), { enabled: true, maxWidth: 200, quality: 70 });
+      const decoded = decodeJpeg(thumbnail.buffer as ArrayBuffer);
+
+      expect(decoded?.width).toBe(200);
+      expect(decoded?.height).toBe(150);
+    });
+  });
+
+  describe('getThumbnailOptions', () => {
+    it('should read the options from the environment', () => {
+      const options = getThumbnailOptions({ THUMBNAIL_MAX_WIDTH: '480', THUMBNAIL_QUALITY: '85' } as Env);
+      expect(options).toEqual({ enabled: true, maxWidth: 480, quality: 85 });
+    });
+
+    it('should fall back to the defaults for missing or invalid values', () => {
+      expect(getThumbnailOptions({ THUMBNAIL_QUALITY: '150' } as Env)).toEqual(DEFAULT_THUMBNAIL_OPTIONS);
+    });
+
+    it('should disable thumbnails when the maximum width is 0', () => {
+      expect(getThumbnailOptions({ THUMBNAIL_MAX_WIDTH: '0' } as Env).enabled).toBe(false);
+    });
+  });
+});
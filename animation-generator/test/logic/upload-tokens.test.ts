@@ -0,0 +1,65 @@
+// Unit tests for webcam upload tokens
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateUploadToken,
+  hashUploadToken,
+  parseBearerToken,
+  parseUploadTimestamp,
+  UPLOAD_TOKEN_PREFIX
+} from '../../src/logic/upload-tokens';
+
+describe('Upload Tokens', () => {
+  describe('generateUploadToken', () => {
+    it('should generate unique prefixed tokens', () => {
+      const first = generateUploadToken();
+      const second = generateUploadToken();
+
+      expect(first.startsWith(UPLOAD_TOKEN_PREFIX)).toBe(true);
+      expect(first).toMatch(/^wcu_[0-9a-f]{64}$/);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('hashUploadToken', () => {
+    it('should produce the SHA-256 hex digest of the token', async () => {
+      expect(await hashUploadToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should produce different hashes for different tokens', async () => {
+      const token = generateUploadToken();
+      expect(await hashUploadToken(token)).toBe(await hashUploadToken(token));
+      expect(await hashUploadToken(token)).not.toBe(await hashUploadToken(generateUploadToken()));
+    });
+  });
+
+  describe('parseBearerToken', () => {
+    it('should read the token from a bearer authorization header', () => {
+      expect(parseBearerToken('Bearer wcu_123')).toBe('wcu_123');
+      expect(parseBearerToken('bearer  wcu_123 ')).toBe('wcu_123');
+    });
+
+    it('should return null without a bearer token', () => {
+      expect(parseBearerToken(undefined)).toBeNull();
+      expect(parseBearerToken('')).toBeNull();
+      expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+      expect(parseBearerToken('Bearer')).toBeNull();
+    });
+  });
+
+  describe('parseUploadTimestamp', () => {
+    it('should accept unix seconds, milliseconds and ISO dates', () => {
+      const expected = new Date('2025-09-24T18:07:00Z').getTime();
+
+      expect(parseUploadTimestamp('1758737220')).toBe(expected);
+      expect(parseUploadTimestamp('1758737220000')).toBe(expected);
+      expect(parseUploadTimestamp('2025-09-24T12:07:00-06:00')).toBe(expected);
+    });
+
+    it('should return null for missing or invalid timestamps', () => {
+      expect(parseUploadTimestamp(undefined)).toBeNull();
+      expect(parseUploadTimestamp('  ')).toBeNull();
+      expect(parseUploadTimestamp('yesterday')).toBeNull();
+    });
+  });
+});
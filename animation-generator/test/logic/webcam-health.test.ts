@@ -0,0 +1,162 @@
+// Unit tests for webcam feed health tracking
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBackoffMinutes,
+  checkCircuitBreaker,
+  evaluateFeedStaleness,
+  isFeedStale,
+  recordCaptureFailure,
+  MAX_BACKOFF_MINUTES,
+  RECOVERY_PROBE_INTERVAL_MINUTES
+} from '../../src/logic/webcam-health';
+import { createTestWebcam } from '../helpers/webcam';
+import { fromDate } from '../../src/logic/timestamp';
+
+describe('Webcam Health', () => {
+  // Noon and 2 AM in Denver (MDT) on 2025-09-24
+  const denverNoon = fromDate(new Date('2025-09-24T18:00:00Z'));
+  const denverNight = fromDate(new Date('2025-09-24T08:00:00Z'));
+
+  const webcam = createTestWebcam({ lastImageHash: 'abc' });
+
+  describe('evaluateFeedStaleness', () => {
+    it('should not add time on the first check', () => {
+      const result = evaluateFeedStaleness(webcam, denverNoon);
+      expect(result).toEqual({ unchangedDaylightMinutes: 0, isStale: false });
+    });
+
+    it('should add the time since the last check during daylight', () => {
+      const result = evaluateFeedStaleness({
+        ...webcam,
+        unchangedDaylightMinutes: 20,
+        unchangedCheckedAt: new Date(denverNoon - 5 * 60 * 1000).toISOString()
+      }, denverNoon);
+
+      expect(result).toEqual({ unchangedDaylightMinutes: 25, isStale: false });
+    });
+
+    it('should not add time during the night', () => {
+      const result = evaluateFeedStaleness({
+        ...webcam,
+        unchangedDaylightMinutes: 20,
+        unchangedCheckedAt: new Date(denverNight - 5 * 60 * 1000).toISOString()
+      }, denverNight);
+
+      expect(result).toEqual({ unchangedDaylightMinutes: 20, isStale: false });
+    });
+
+    it('should cap the time added by a single check at twice the capture interval', () => {
+      const result = evaluateFeedStaleness({
+        ...webcam,
+        unchangedDaylightMinutes: 20,
+        unchangedCheckedAt: new Date(denverNoon - 12 * 60 * 60 * 1000).toISOString()
+      }, denverNoon);
+
+      expect(result.unchangedDaylightMinutes).toBe(30);
+    });
+
+    it('should be stale once the unchanged time passes the threshold', () => {
+      const result = evaluateFeedStaleness({
+        ...webcam,
+        unchangedDaylightMinutes: 58,
+        unchangedCheckedAt: new Date(denverNoon - 5 * 60 * 1000).toISOString()
+      }, denverNoon);
+
+      expect(result).toEqual({ unchangedDaylightMinutes: 63, isStale: true });
+    });
+
+    it('should use the webcams stale threshold', () => {
+      const result = evaluateFeedStaleness({
+        ...webcam,
+        staleThresholdMinutes: 240,
+        unchangedDaylightMinutes: 100,
+        unchangedCheckedAt: new Date(denverNoon - 5 * 60 * 1000).toISOString()
+      }, denverNoon);
+
+      expect(result.isStale).toBe(false);
+    });
+  });
+
+  describe('isFeedStale', () => {
+    it('should stay stale while the circuit breaker changes the health state', () => {
+      expect(isFeedStale({ ...webcam, unchangedDaylightMinutes: 63, healthState: 'backoff' })).toBe(true);
+      expect(isFeedStale({ ...webcam, unchangedDaylightMinutes: 30, healthState: 'stale' })).toBe(false);
+    });
+  });
+
+  describe('calculateBackoffMinutes', () => {
+    it('should double the backoff for each consecutive failure', () => {
+      expect(calculateBackoffMinutes(0)).toBe(0);
+      expect(calculateBackoffMinutes(1)).toBe(1);
+      expect(calculateBackoffMinutes(2)).toBe(2);
+      expect(calculateBackoffMinutes(4)).toBe(8);
+    });
+
+    it('should cap the backoff', () => {
+      expect(calculateBackoffMinutes(20)).toBe(MAX_BACKOFF_MINUTES);
+    });
+  });
+
+  describe('recordCaptureFailure', () => {
+    it('should back off after the first failure', () => {
+      const result = recordCaptureFailure(webcam, denverNoon);
+
+      expect(result.consecutiveFailures).toBe(1);
+      expect(result.healthState).toBe('backoff');
+      expect(new Date(result.nextAttemptAt).getTime()).toBe(denverNoon + 60 * 1000);
+    });
+
+    it('should suspend the webcam once it reaches the failure threshold', () => {
+      const result = recordCaptureFailure({ ...webcam, consecutiveFailures: 9, healthState: 'backoff' }, denverNoon);
+
+      expect(result.consecutiveFailures).toBe(10);
+      expect(result.healthState).toBe('suspended');
+      expect(new Date(result.nextAttemptAt).getTime()).toBe(denverNoon + RECOVERY_PROBE_INTERVAL_MINUTES * 60 * 1000);
+    });
+
+    it('should keep a suspended webcam suspended when a recovery probe fails', () => {
+      const result = recordCaptureFailure({ ...webcam, consecutiveFailures: 12, healthState: 'suspended' }, denverNoon);
+      expect(result.healthState).toBe('suspended');
+    });
+  });
+
+  describe('checkCircuitBreaker', () => {
+    it('should allow a webcam without failures', () => {
+      expect(checkCircuitBreaker(webcam, denverNoon)).toEqual({ allowed: true, isProbe: false, reason: 'no recent failures' });
+    });
+
+    it('should hold back a webcam until the backoff expires', () => {
+      const backingOff = {
+        ...webcam,
+        consecutiveFailures: 3,
+        healthState: 'backoff' as const,
+        nextAttemptAt: new Date(denverNoon + 2 * 60 * 1000).toISOString()
+      };
+
+      const blocked = checkCircuitBreaker(backingOff, denverNoon);
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.reason).toContain('backing off after 3 consecutive failures');
+
+      const retry = checkCircuitBreaker(backingOff, denverNoon + 3 * 60 * 1000);
+      expect(retry.allowed).toBe(true);
+      expect(retry.isProbe).toBe(false);
+    });
+
+    it('should probe a suspended webcam once the probe interval has passed', () => {
+      const suspended = {
+        ...webcam,
+        consecutiveFailures: 10,
+        healthState: 'suspended' as const,
+        nextAttemptAt: new Date(denverNoon + 60 * 60 * 1000).toISOString()
+      };
+
+      const blocked = checkCircuitBreaker(suspended, denverNoon);
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.reason).toContain('suspended after 10 consecutive failures');
+
+      const probe = checkCircuitBreaker(suspended, denverNoon + 61 * 60 * 1000);
+      expect(probe).toEqual({ allowed: true, isProbe: true, reason: 'recovery probe for suspended webcam' });
+    });
+  });
+});
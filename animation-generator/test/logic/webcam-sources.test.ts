@@ -0,0 +1,370 @@
+// Unit tests for webcam source adapters, run against a fake origin server
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  expandUrlTemplate,
+  getSourceAdapter,
+  parseSourceTimestamp,
+  resolveJsonPointer,
+  resolveSourceImage,
+  DirectUrlSource,
+  JsonPointerSource,
+  UrlTemplateSource
+} from '../../src/logic/webcam-sources';
+import { DEFAULT_HOST_LIMIT, HostLimiter } from '../../src/logic/capture-planner';
+import type { WebcamDto } from '../../src/db/schema';
+import { createTestWebcam } from '../helpers/webcam';
+
+type Route = (request: Request) => Response;
+
+/**
+ * Create a fake origin server that answers requests by url and records the requests it receives
+ */
+function createFakeOrigin(routes: Record<string, Route>) {
+  const requests: Request[] = [];
+
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    requests.push(request);
+
+    const route = routes[request.url];
+    return route ? route(request) : new Response('not found', { status: 404 });
+  };
+
+  vi.stubGlobal('fetch', fetch);
+  return { requests };
+}
+
+const jpegBytes = new Uint8Array([0xFF, 0xD8, 0xFF, 0xDB, 0x01, 0x02, 0xFF, 0xD9]);
+
+const jpegResponse = (headers: Record<string, string> = {}): Route =>
+  () => new Response(jpegBytes, { headers: { 'content-type': 'image/jpeg', ...headers } });
+
+const jsonResponse = (body: unknown): Route =>
+  () => new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+
+describe('Webcam Sources', () => {
+  const webcam = createTestWebcam({ url: 'http://cams.test/denver.jpg' });
+
+  // 12:07:30 in Denver (MDT)
+  const currentTime = new Date('2025-09-24T18:07:30Z').getTime();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getSourceAdapter', () => {
+    it('should use the direct url adapter by default', () => {
+      expect(getSourceAdapter({ ...webcam, sourceType: null })).toBe(DirectUrlSource);
+    });
+
+    it('should return the adapter for the webcams source type', () => {
+      expect(getSourceAdapter({ ...webcam, sourceType: 'url_template' })).toBe(UrlTemplateSource);
+      expect(getSourceAdapter({ ...webcam, sourceType: 'json_pointer' })).toBe(JsonPointerSource);
+    });
+  });
+
+  describe('DirectUrlSource', () => {
+    it('should fetch the image from the webcam url', async () => {
+      createFakeOrigin({ 'http://cams.test/denver.jpg': jpegResponse({ etag: '"v2"' }) });
+
+      const image = await DirectUrlSource.resolve(webcam, currentTime);
+
+      expect(image.notModified).toBe(false);
+      expect(image.contentType).toBe('image/jpeg');
+      expect(new Uint8Array(image.imageData!)).toEqual(jpegBytes);
+      expect(image.cacheValidators.etag).toBe('"v2"');
+      expect(image.sourceTimestamp).toBeNull();
+    });
+
+    it('should report a 304 for a conditional request', async () => {
+      const origin = createFakeOrigin({
+        'http://cams.test/denver.jpg': (request) => request.headers.get('if-none-match') === '"v1"'
+          ? new Response(null, { status: 304 })
+          : jpegResponse()(request)
+      });
+
+      const image = await DirectUrlSource.resolve({ ...webcam, lastEtag: '"v1"' }, currentTime);
+
+      expect(origin.requests).toHaveLength(1);
+      expect(image.notModified).toBe(true);
+      expect(image.imageData).toBeNull();
+    });
+
+    it('should throw when the origin fails', async () => {
+      createFakeOrigin({ 'http://cams.test/denver.jpg': () => new Response('error', { status: 500 }) });
+
+      await expect(DirectUrlSource.resolve(webcam, currentTime)).rejects.toThrow('Fetch failed: 500');
+    });
+
+    it('should send the headers from the webcams request profile', async () => {
+      const origin = createFakeOrigin({ 'http://cams.test/denver.jpg': jpegResponse() });
+
+      await DirectUrlSource.resolve({
+        ...webcam,
+        requestProfile: {
+          headers: { 'User-Agent': 'nps-webcam-animations/1.0' },
+          auth: { scheme: 'bearer', tokenSecret: 'WEBCAM_SECRET_DENVER_TOKEN' }
+        }
+      }, currentTime, { WEBCAM_SECRET_DENVER_TOKEN: 'token-123' });
+
+      expect(origin.requests[0].headers.get('user-agent')).toBe('nps-webcam-animations/1.0');
+      expect(origin.requests[0].headers.get('authorization')).toBe('Bearer token-123');
+    });
+
+    it('should not send credentials when the image redirects to another origin', async () => {
+      const origin = createFakeOrigin({
+        'http://cams.test/denver.jpg': () => new Response(null, { status: 302, headers: { location: 'http://cdn.test/denver.jpg' } }),
+        'http://cdn.test/denver.jpg': jpegResponse()
+      });
+
+      const image = await DirectUrlSource.resolve({
+        ...webcam,
+        requestProfile: {
+          headers: { 'User-Agent': 'nps-webcam-animations/1.0' },
+          secretHeaders: { 'X-Api-Key': 'WEBCAM_SECRET_DENVER_KEY' },
+          auth: { scheme: 'bearer', tokenSecret: 'WEBCAM_SECRET_DENVER_TOKEN' }
+        }
+      }, currentTime, { WEBCAM_SECRET_DENVER_KEY: 'key-123', WEBCAM_SECRET_DENVER_TOKEN: 'token-123' });
+
+      expect(new Uint8Array(image.imageData!)).toEqual(jpegBytes);
+      expect(origin.requests[0].redirect).toBe('manual');
+      expect(origin.requests[0].headers.get('authorization')).toBe('Bearer token-123');
+
+      expect(origin.requests[1].url).toBe('http://cdn.test/denver.jpg');
+      expect(origin.requests[1].headers.get('user-agent')).toBe('nps-webcam-animations/1.0');
+      expect(origin.requests[1].headers.get('authorization')).toBeNull();
+      expect(origin.requests[1].headers.get('x-api-key')).toBeNull();
+    });
+
+    it('should reject an html page served in place of the image', async () => {
+      createFakeOrigin({ 'http://cams.test/denver.jpg': () => new Response('<html>Camera offline</html>', { headers: { 'content-type': 'text/html' } }) });
+
+      await expect(DirectUrlSource.resolve(webcam, currentTime)).rejects.toMatchObject({ errorType: 'invalid_content_type' });
+    });
+
+    it('should take the content type from the magic bytes', async () => {
+      createFakeOrigin({ 'http://cams.test/denver.jpg': () => new Response(jpegBytes, { headers: { 'content-type': 'application/octet-stream' } }) });
+
+      const image = await DirectUrlSource.resolve(webcam, currentTime);
+      expect(image.contentType).toBe('image/jpeg');
+    });
+  });
+
+  describe('UrlTemplateSource', () => {
+    const templateWebcam: WebcamDto = {
+      ...webcam,
+      sourceType: 'url_template',
+      sourceConfig: { urlTemplate: 'http://cams.test/{yyyy}/{MM}/{dd}/{HHmm}.jpg', stepMinutes: 5, lookbackSteps: 1 }
+    };
+
+    it('should fetch the image for the latest step in the webcams timezone', async () => {
+      const origin = createFakeOrigin({ 'http://cams.test/2025/09/24/1205.jpg': jpegResponse() });
+
+      const image = await UrlTemplateSource.resolve(templateWebcam, currentTime);
+
+      expect(origin.requests).toHaveLength(1);
+      expect(image.imageUrl).toBe('http://cams.test/2025/09/24/1205.jpg');
+      expect(image.sourceTimestamp).toBe(new Date('2025-09-24T18:05:00Z').getTime());
+    });
+
+    it('should fall back to an earlier step when the latest image is not published', async () => {
+      const origin = createFakeOrigin({ 'http://cams.test/2025/09/24/1200.jpg': jpegResponse() });
+
+      const image = await UrlTemplateSource.resolve(templateWebcam, currentTime);
+
+      expect(origin.requests.map(r => r.url)).toEqual(['http://cams.test/2025/09/24/1205.jpg', 'http://cams.test/2025/09/24/1200.jpg']);
+      expect(image.imageUrl).toBe('http://cams.test/2025/09/24/1200.jpg');
+      expect(image.sourceTimestamp).toBe(new Date('2025-09-24T18:00:00Z').getTime());
+    });
+
+    it('should throw when no step has an image', async () => {
+      createFakeOrigin({});
+
+      await expect(UrlTemplateSource.resolve(templateWebcam, currentTime)).rejects.toThrow('Fetch failed: 404');
+    });
+
+    it('should throw when the template is missing', async () => {
+      await expect(UrlTemplateSource.resolve({ ...templateWebcam, sourceConfig: null }, currentTime)).rejects.toThrow('urlTemplate');
+    });
+  });
+
+  describe('JsonPointerSource', () => {
+    const jsonWebcam: WebcamDto = {
+      ...webcam,
+      url: 'http://api.test/webcams/denver.json',
+      sourceType: 'json_pointer',
+      sourceConfig: { imagePointer: '/data/0/image/url', timestampPointer: '/data/0/capturedAt' }
+    };
+
+    it('should follow the pointer to the image and read its timestamp', async () => {
+      createFakeOrigin({
+        'http://api.test/webcams/denver.json': jsonResponse({ data: [{ image: { url: '/images/current.jpg' }, capturedAt: '2025-09-24T18:04:00Z' }] }),
+        'http://api.test/images/current.jpg': jpegResponse()
+      });
+
+      const image = await JsonPointerSource.resolve(jsonWebcam, currentTime);
+
+      expect(image.imageUrl).toBe('http://api.test/images/current.jpg');
+      expect(image.sourceTimestamp).toBe(new Date('2025-09-24T18:04:00Z').getTime());
+      expect(new Uint8Array(image.imageData!)).toEqual(jpegBytes);
+    });
+
+    it('should not send credentials to an image on another host', async () => {
+      const origin = createFakeOrigin({
+        'http://api.test/webcams/denver.json': jsonResponse({ data: [{ image: { url: 'http://images.test/current.jpg' } }] }),
+        'http://images.test/current.jpg': jpegResponse()
+      });
+
+      await JsonPointerSource.resolve({
+        ...jsonWebcam,
+        requestProfile: {
+          headers: { 'User-Agent': 'nps-webcam-animations/1.0' },
+          secretHeaders: { 'X-Api-Key': 'WEBCAM_SECRET_DENVER_KEY' },
+          auth: { scheme: 'bearer', tokenSecret: 'WEBCAM_SECRET_DENVER_TOKEN' }
+        }
+      }, currentTime, { WEBCAM_SECRET_DENVER_KEY: 'key-123', WEBCAM_SECRET_DENVER_TOKEN: 'token-123' });
+
+      expect(origin.requests[0].headers.get('authorization')).toBe('Bearer token-123');
+      expect(origin.requests[0].headers.get('x-api-key')).toBe('key-123');
+
+      expect(origin.requests[1].url).toBe('http://images.test/current.jpg');
+      expect(origin.requests[1].headers.get('user-agent')).toBe('nps-webcam-animations/1.0');
+      expect(origin.requests[1].headers.get('authorization')).toBeNull();
+      expect(origin.requests[1].headers.get('x-api-key')).toBeNull();
+    });
+
+    it('should hold a slot on the host of each url it fetches', async () => {
+      createFakeOrigin({
+        'http://api.test/webcams/denver.json': jsonResponse({ data: [{ image: { url: 'http://images.test/current.jpg' } }] }),
+        'http://images.test/current.jpg': jpegResponse()
+      });
+      const hostLimiter = new HostLimiter();
+      const acquire = vi.spyOn(hostLimiter, 'acquire');
+
+      await JsonPointerSource.resolve(jsonWebcam, currentTime, {}, hostLimiter);
+
+      expect(acquire.mock.calls.map(call => call[0])).toEqual(['api.test', 'images.test']);
+      expect(hostLimiter.getDelay('images.test', Date.now() + DEFAULT_HOST_LIMIT.minSpacingMs)).toBe(0);
+    });
+
+    it('should hold the host slot until the body has been read', async () => {
+      const events: string[] = [];
+      const body = new ReadableStream<Uint8Array>({
+        pull: (controller) => {
+          events.push('read');
+          controller.enqueue(jpegBytes);
+          controller.close();
+        }
+      }, { highWaterMark: 0 });
+      createFakeOrigin({
+        'http://api.test/webcams/denver.json': jsonResponse({ data: [{ image: { url: 'http://images.test/current.jpg' } }] }),
+        'http://images.test/current.jpg': () => new Response(body, { headers: { 'content-type': 'image/jpeg' } })
+      });
+      const hostLimiter = new HostLimiter();
+      const finish = hostLimiter.finish.bind(hostLimiter);
+      vi.spyOn(hostLimiter, 'finish').mockImplementation((host) => {
+        events.push(`finish ${host}`);
+        finish(host);
+      });
+
+      await JsonPointerSource.resolve(jsonWebcam, currentTime, {}, hostLimiter);
+
+      expect(events).toEqual(['finish api.test', 'read', 'finish images.test']);
+    });
+
+    it('should throw when the pointer does not resolve to a url', async () => {
+      createFakeOrigin({ 'http://api.test/webcams/denver.json': jsonResponse({ data: [] }) });
+
+      await expect(JsonPointerSource.resolve(jsonWebcam, currentTime)).rejects.toThrow('did not resolve to an image url');
+    });
+  });
+
+  describe('expandUrlTemplate', () => {
+    it('should replace date tokens using the timezone', () => {
+      expect(expandUrlTemplate('http://cams.test/{yyyyMMdd}_{HHmmss}.jpg', currentTime, 'America/Denver'))
+        .toBe('http://cams.test/20250924_120730.jpg');
+    });
+
+    it('should replace the unix token with seconds', () => {
+      expect(expandUrlTemplate('http://cams.test/{unix}.jpg', currentTime, 'UTC'))
+        .toBe(`http://cams.test/${currentTime / 1000}.jpg`);
+    });
+  });
+
+  describe('resolveSourceImage', () => {
+    const fallbackWebcam: WebcamDto = {
+      ...webcam,
+      lastEtag: '"v1"',
+      fallbackUrls: ['http://mirror.test/denver.jpg', 'http://cams.test/denver-small.jpg']
+    };
+
+    it('should use the primary source when it succeeds', async () => {
+      const origin = createFakeOrigin({ 'http://cams.test/denver.jpg': jpegResponse() });
+
+      const resolved = await resolveSourceImage(fallbackWebcam, currentTime);
+
+      expect(resolved.isPrimary).toBe(true);
+      expect(resolved.sourceUrl).toBe('http://cams.test/denver.jpg');
+      expect(resolved.attempts).toEqual([{ sourceUrl: 'http://cams.test/denver.jpg', isPrimary: true, error: null }]);
+      expect(origin.requests).toHaveLength(1);
+    });
+
+    it('should try the fallback urls in order until one serves an image', async () => {
+      const origin = createFakeOrigin({
+        'http://cams.test/denver.jpg': () => new Response('error', { status: 500 }),
+        'http://mirror.test/denver.jpg': () => new Response('<html>down</html>', { headers: { 'content-type': 'text/html' } }),
+        'http://cams.test/denver-small.jpg': jpegResponse()
+      });
+
+      const resolved = await resolveSourceImage(fallbackWebcam, currentTime);
+
+      expect(resolved.isPrimary).toBe(false);
+      expect(resolved.sourceUrl).toBe('http://cams.test/denver-small.jpg');
+      expect(resolved.image?.imageUrl).toBe('http://cams.test/denver-small.jpg');
+      expect(resolved.attempts.map(a => [a.sourceUrl, a.error === null])).toEqual([
+        ['http://cams.test/denver.jpg', false],
+        ['http://mirror.test/denver.jpg', false],
+        ['http://cams.test/denver-small.jpg', true]
+      ]);
+
+      // The primary sources validators are not sent to the fallbacks
+      expect(origin.requests[0].headers.get('if-none-match')).toBe('"v1"');
+      expect(origin.requests[2].headers.get('if-none-match')).toBeNull();
+    });
+
+    it('should return every failed attempt when no source serves an image', async () => {
+      createFakeOrigin({});
+
+      const resolved = await resolveSourceImage(fallbackWebcam, currentTime);
+
+      expect(resolved.image).toBeNull();
+      expect(resolved.sourceUrl).toBeNull();
+      expect(resolved.attempts).toHaveLength(3);
+      expect((resolved.attempts[0].error as Error).message).toContain('Fetch failed: 404');
+    });
+  });
+
+  describe('resolveJsonPointer', () => {
+    const document = { a: { 'b/c': [10, 20], 'm~n': 'tilde' } };
+
+    it('should resolve nested keys and array indexes', () => {
+      expect(resolveJsonPointer(document, '/a/b~1c/1')).toBe(20);
+      expect(resolveJsonPointer(document, '/a/m~0n')).toBe('tilde');
+      expect(resolveJsonPointer(document, '')).toBe(document);
+    });
+
+    it('should return undefined for a missing path', () => {
+      expect(resolveJsonPointer(document, '/a/missing')).toBeUndefined();
+    });
+  });
+
+  describe('parseSourceTimestamp', () => {
+    it('should parse unix seconds, milliseconds and date strings', () => {
+      expect(parseSourceTimestamp(1758736800)).toBe(1758736800000);
+      expect(parseSourceTimestamp(1758736800000)).toBe(1758736800000);
+      expect(parseSourceTimestamp('2025-09-24T18:00:00Z')).toBe(1758736800000);
+      expect(parseSourceTimestamp('not a date')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// Unit tests for webcam fetch utility functions
+
+import { describe, it, expect } from 'vitest';
+import { getCacheValidators, getConditionalRequestHeaders, haveCacheValidatorsChanged } from '../../src/logic/webcam';
+import { createTestWebcam } from '../helpers/webcam';
+
+describe('Webcam Utils', () => {
+  const webcam = createTestWebcam();
+
+  describe('getConditionalRequestHeaders', () => {
+    it('should return no headers when no validators are saved', () => {
+      expect(getConditionalRequestHeaders(webcam)).toEqual({});
+    });
+
+    it('should send both validators when they are saved', () => {
+      const headers = getConditionalRequestHeaders({
+        ...webcam,
+        lastEtag: '"abc123"',
+        lastModified: 'Wed, 24 Sep 2025 12:00:00 GMT'
+      });
+
+      expect(headers).toEqual({
+        'If-None-Match': '"abc123"',
+        'If-Modified-Since': 'Wed, 24 Sep 2025 12:00:00 GMT'
+      });
+    });
+
+    it('should only send If-Modified-Since when there is no ETag', () => {
+      const headers = getConditionalRequestHeaders({ ...webcam, lastModified: 'Wed, 24 Sep 2025 12:00:00 GMT' });
+      expect(headers).toEqual({ 'If-Modified-Since': 'Wed, 24 Sep 2025 12:00:00 GMT' });
+    });
+  });
+
+  describe('getCacheValidators', () => {
+    it('should read the ETag and Last-Modified headers', () => {
+      const headers = new Headers({ 'ETag': 'W/"v2"', 'Last-Modified': 'Wed, 24 Sep 2025 12:01:00 GMT' });
+      expect(getCacheValidators(headers)).toEqual({ etag: 'W/"v2"', lastModified: 'Wed, 24 Sep 2025 12:01:00 GMT' });
+    });
+
+    it('should return null for missing headers', () => {
+      expect(getCacheValidators(new Headers())).toEqual({ etag: null, lastModified: null });
+    });
+  });
+
+  describe('haveCacheValidatorsChanged', () => {
+    it('should be false when the validators match the saved ones', () => {
+      const saved = { ...webcam, lastEtag: '"abc"', lastModified: 'Wed, 24 Sep 2025 12:00:00 GMT' };
+      expect(haveCacheValidatorsChanged(saved, { etag: '"abc"', lastModified: 'Wed, 24 Sep 2025 12:00:00 GMT' })).toBe(false);
+    });
+
+    it('should be true when the ETag changes', () => {
+      const saved = { ...webcam, lastEtag: '"abc"' };
+      expect(haveCacheValidatorsChanged(saved, { etag: '"def"', lastModified: null })).toBe(true);
+    });
+
+    it('should be false when neither the webcam nor the response have validators', () => {
+      expect(haveCacheValidatorsChanged(webcam, { etag: null, lastModified: null })).toBe(false);
+    });
+  });
+});
@@ -7,6 +7,12 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		R2_PUBLIC_BASE_URL: "https://pub-a039359a5ce64160bdb2ef4b7fbdb703.r2.dev";
+		CAPTURE_MAX_WEBCAMS_PER_CYCLE: string;
+		CAPTURE_CONCURRENCY: string;
+		CAPTURE_CYCLE_BUDGET_MS: string;
+		THUMBNAIL_MAX_WIDTH: string;
+		THUMBNAIL_QUALITY: string;
+		ADMIN_API_TOKEN: string;
 		CLOUDFLARE_ACCOUNT_ID: string;
 		CLOUDFLARE_D1_TOKEN: string;
 		CLOUDFLARE_DATABASE_ID: string;